@@ -0,0 +1,171 @@
+import type { DcaConfig, Candle, BacktestResults, RoundResult, CapitalAccount } from './types';
+import { calculateDrawdown, calculateRiskMetrics } from './metrics';
+import { calculateBenchmarks } from './benchmarks';
+import { createCashAccount } from './capital';
+import { breakEvenBaseOrderSize } from './costs';
+import { describeEntryFilter } from './entryFilters';
+import { DcaEngine, type EngineStats } from './DcaEngine';
+
+/**
+ * DCA Backtesting Engine
+ * Ported from dcabot simulation with browser-compatible implementation.
+ * The strategy itself lives in DcaEngine; this feeds it a candle series
+ * and turns what comes out into results.
+ */
+
+export class DcaBacktester {
+  private config: DcaConfig;
+  private candles: Candle[];
+  private initialCapital: number;
+  private benchmarkDcaIntervalHours: number;
+  private account: CapitalAccount;
+  private sharedAccount: CapitalAccount | undefined;
+  private engine: DcaEngine;
+  private rounds: RoundResult[] = [];
+  private equity: { timestamp: number; value: number }[] = [];
+
+  constructor(
+    config: DcaConfig,
+    candles: Candle[],
+    initialCapital: number,
+    benchmarkDcaIntervalHours = 24,
+    account?: CapitalAccount
+  ) {
+    this.config = config;
+    this.candles = candles;
+    this.initialCapital = initialCapital;
+    this.sharedAccount = account;
+    this.account = account ?? createCashAccount(initialCapital);
+    this.benchmarkDcaIntervalHours = benchmarkDcaIntervalHours;
+    this.engine = new DcaEngine(config, initialCapital, this.account);
+  }
+
+  /**
+   * Run the backtest simulation
+   */
+  public run(): BacktestResults {
+    this.reset();
+
+    for (const candle of this.candles) {
+      this.step(candle);
+    }
+
+    return this.finish();
+  }
+
+  /**
+   * Process a single candle, for callers that interleave several backtesters
+   * (call finish() after the last one)
+   */
+  public step(candle: Candle): void {
+    const { closedRounds, snapshot } = this.engine.onCandle(candle);
+    this.rounds.push(...closedRounds);
+    this.equity.push({ timestamp: candle.timestamp, value: snapshot.equity });
+  }
+
+  /**
+   * Close any open round at the end and build the results
+   */
+  public finish(): BacktestResults {
+    this.rounds.push(...this.engine.closeOpenRound().closedRounds);
+    return this.generateResults();
+  }
+
+  /**
+   * Equity at the last processed candle
+   */
+  public get currentValue(): number {
+    return this.equity[this.equity.length - 1]?.value ?? this.account.balance();
+  }
+
+  private reset(): void {
+    // A shared account is the caller's to manage; an own one starts full on every run
+    if (!this.sharedAccount) this.account = createCashAccount(this.initialCapital);
+    this.engine = new DcaEngine(this.config, this.initialCapital, this.account);
+    this.rounds = [];
+    this.equity = [];
+  }
+
+  private generateResults(): BacktestResults {
+    return buildDcaResults({
+      config: this.config,
+      candles: this.candles,
+      rounds: this.rounds,
+      equity: this.equity,
+      stats: this.engine.getStats(),
+      benchmarkDcaIntervalHours: this.benchmarkDcaIntervalHours,
+    });
+  }
+}
+
+export interface DcaRunRecord {
+  config: DcaConfig;
+  candles: Candle[]; // Prices the engine saw, for the benchmarks
+  rounds: RoundResult[]; // Closed rounds
+  equity: { timestamp: number; value: number }[];
+  stats: EngineStats;
+  benchmarkDcaIntervalHours: number;
+}
+
+/**
+ * Results for whatever an engine has been fed so far. Also used by paper
+ * trading, where the run never ends and the open round stays open.
+ */
+export function buildDcaResults(run: DcaRunRecord): BacktestResults {
+  const { config, candles, rounds, equity, stats } = run;
+  const initialCapital = equity[0]?.value ?? 0;
+  const finalValue = equity[equity.length - 1]?.value || initialCapital;
+  const totalReturn = finalValue - initialCapital;
+  const totalReturnPercent = (totalReturn / initialCapital) * 100;
+
+  const winningRounds = rounds.filter((r) => r.realizedPnL > 0).length;
+  const losingRounds = rounds.filter((r) => r.realizedPnL <= 0).length;
+  const winRate = rounds.length > 0 ? (winningRounds / rounds.length) * 100 : 0;
+
+  const totalTrades = rounds.reduce((sum, r) => sum + r.tradesExecuted, 0);
+  const averageRoundPnL =
+    rounds.length > 0 ? rounds.reduce((sum, r) => sum + r.realizedPnL, 0) / rounds.length : 0;
+
+  const { maxDrawdown } = calculateDrawdown(equity, initialCapital);
+
+  return {
+    config,
+    startTimestamp: candles[0]?.timestamp || 0,
+    endTimestamp: candles[candles.length - 1]?.timestamp || 0,
+    initialCapital,
+    finalValue,
+    totalReturn,
+    totalReturnPercent,
+    roundsCompleted: rounds.length,
+    totalTrades,
+    winningRounds,
+    losingRounds,
+    winRate,
+    maxDrawdown,
+    averageRoundPnL,
+    dcaOrdersSkipped: stats.dcaOrdersSkipped,
+    rounds,
+    equity,
+    costs: stats.costs,
+    breakEvenBaseOrderSize: breakEvenBaseOrderSize(rounds, config.baseOrderSize),
+    entriesBlocked: stats.entriesBlocked,
+    entryFilterSkips: (config.entryConditions?.filters ?? []).map((filter, i) => ({
+      filter,
+      label: describeEntryFilter(filter, config.side),
+      skipped: stats.entryFilterSkipped[i] ?? 0,
+    })),
+    benchmarks: calculateBenchmarks(
+      candles,
+      initialCapital,
+      { totalReturnPercent, maxDrawdown },
+      run.benchmarkDcaIntervalHours
+    ),
+    ...calculateRiskMetrics({
+      equity,
+      rounds,
+      initialCapital,
+      candlesInMarket: stats.candlesInMarket,
+      maxCapitalDeployed: stats.maxCapitalDeployed,
+    }),
+  };
+}
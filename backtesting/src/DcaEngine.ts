@@ -0,0 +1,773 @@
+import type {
+  DcaConfig,
+  Candle,
+  RoundResult,
+  TradeEntry,
+  FillModel,
+  ExitReason,
+  CostBreakdown,
+  CapitalAccount,
+  OrderIntent,
+  EngineSnapshot,
+} from './types';
+import { createCashAccount } from './capital';
+import { emptyCosts, addCosts, slippageBps, exchangeFeeBps } from './costs';
+import { createEntryGate, type EntryGate, type EntryGateState } from './entryFilters';
+
+/**
+ * Streaming DCA engine
+ * The strategy one bar at a time: feed it candles (or bare prices), get back the
+ * orders it filled and where it stands. The backtester is a loop over this;
+ * paper trading and keepers drive it from live prices and persist its state.
+ */
+
+export const ENGINE_STATE_VERSION = 1;
+
+/**
+ * Counters a backtest reports on, kept across bars
+ */
+export interface EngineStats {
+  dcaOrdersSkipped: number; // DCA levels reached without enough capital to fill
+  entriesBlocked: number;
+  entryFilterSkipped: number[]; // Per entry filter, candles it failed while blocking
+  candlesInMarket: number;
+  maxCapitalDeployed: number;
+  costs: CostBreakdown; // Closed rounds only
+}
+
+export interface EngineStep {
+  intents: OrderIntent[]; // Filled on this bar, in order
+  closedRounds: RoundResult[];
+  snapshot: EngineSnapshot;
+}
+
+/**
+ * Everything needed to resume an engine, JSON-safe
+ */
+export interface EngineState {
+  version: number;
+  config: DcaConfig;
+  cash: number; // Balance of the engine's own account
+  lastCandle: Candle | null;
+  roundsCompleted: number;
+  round: OpenRoundState | null;
+  stats: EngineStats;
+  gate: EntryGateState;
+}
+
+interface OpenRoundState {
+  baseEntryPrice: number;
+  nextDcaIndex: number;
+  baseQuantity: number;
+  quoteQuantity: number;
+  totalCostBasis: number;
+  averageEntryPrice: number;
+  capitalDeployed: number;
+  peakPrice: number;
+  trailingArmed: boolean;
+  roundCosts: CostBreakdown;
+  entries: TradeEntry[];
+  result: Partial<RoundResult>;
+}
+
+export class DcaEngine {
+  private config: DcaConfig;
+  private account: CapitalAccount;
+  private entryGate: EntryGate;
+  private lastCandle: Candle | null = null;
+  private roundsCompleted = 0;
+  private stats: EngineStats;
+
+  // Output of the bar being processed
+  private intents: OrderIntent[] = [];
+  private closedRounds: RoundResult[] = [];
+
+  // Round state
+  private currentRound: Partial<RoundResult> | null = null;
+  private roundActive = false;
+  private baseEntryPrice = 0;
+  private nextDcaIndex = 0;
+  private baseQuantity = 0;
+  private quoteQuantity = 0;
+  private totalCostBasis = 0;
+  private averageEntryPrice = 0;
+  private capitalDeployed = 0; // Gross order size committed this round
+  private peakPrice = 0; // Most favourable price since the round started
+  private trailingArmed = false;
+  private roundCosts: CostBreakdown = emptyCosts();
+  private entries: TradeEntry[] = [];
+
+  constructor(
+    config: DcaConfig,
+    initialCapital: number,
+    account: CapitalAccount = createCashAccount(initialCapital)
+  ) {
+    this.config = config;
+    this.account = account;
+    this.entryGate = createEntryGate(config.entryConditions, config.side);
+    this.stats = {
+      dcaOrdersSkipped: 0,
+      entriesBlocked: 0,
+      entryFilterSkipped: (config.entryConditions?.filters ?? []).map(() => 0),
+      candlesInMarket: 0,
+      maxCapitalDeployed: 0,
+      costs: emptyCosts(),
+    };
+  }
+
+  /**
+   * Resume a serialized engine. Pass an account to draw on a shared pool instead
+   * of the saved cash balance.
+   */
+  static restore(state: EngineState, account?: CapitalAccount): DcaEngine {
+    if (state.version !== ENGINE_STATE_VERSION) {
+      throw new Error(`Unsupported engine state version ${state.version}`);
+    }
+
+    const engine = new DcaEngine(state.config, state.cash, account);
+    engine.entryGate.load(state.gate);
+    engine.lastCandle = state.lastCandle;
+    engine.roundsCompleted = state.roundsCompleted;
+    engine.stats = structuredClone(state.stats);
+
+    const round = state.round;
+    if (round) {
+      engine.roundActive = true;
+      engine.baseEntryPrice = round.baseEntryPrice;
+      engine.nextDcaIndex = round.nextDcaIndex;
+      engine.baseQuantity = round.baseQuantity;
+      engine.quoteQuantity = round.quoteQuantity;
+      engine.totalCostBasis = round.totalCostBasis;
+      engine.averageEntryPrice = round.averageEntryPrice;
+      engine.capitalDeployed = round.capitalDeployed;
+      engine.peakPrice = round.peakPrice;
+      engine.trailingArmed = round.trailingArmed;
+      engine.roundCosts = { ...round.roundCosts };
+      engine.entries = round.entries.map((e) => ({ ...e }));
+      engine.currentRound = structuredClone(round.result);
+    }
+    return engine;
+  }
+
+  /**
+   * Advance by one candle. Timestamps must increase.
+   */
+  public onCandle(candle: Candle): EngineStep {
+    if (this.lastCandle && candle.timestamp <= this.lastCandle.timestamp) {
+      throw new Error(
+        `Candle at ${new Date(candle.timestamp).toISOString()} is not after ${new Date(this.lastCandle.timestamp).toISOString()}`
+      );
+    }
+
+    this.intents = [];
+    this.closedRounds = [];
+    this.processCandle(candle);
+    this.lastCandle = candle;
+    return this.stepResult();
+  }
+
+  /**
+   * Advance by one price tick, treated as a flat candle. Without volume the
+   * slippage model has nothing to scale by, so ticks fill without slippage.
+   * The default is 0 rather than Infinity so lastCandle stays JSON-safe.
+   */
+  public onPrice(price: number, timestamp: number, volume = 0): EngineStep {
+    return this.onCandle({ timestamp, open: price, high: price, low: price, close: price, volume });
+  }
+
+  /**
+   * Close the open round at the last close, e.g. at the end of the data
+   */
+  public closeOpenRound(reason: ExitReason = 'END_OF_DATA'): EngineStep {
+    this.intents = [];
+    this.closedRounds = [];
+    if (this.roundActive && this.lastCandle) {
+      this.closeRound(this.lastCandle, this.lastCandle.close, reason);
+    }
+    return this.stepResult();
+  }
+
+  public snapshot(): EngineSnapshot {
+    const price = this.lastCandle?.close ?? null;
+    const active = this.roundActive;
+
+    return {
+      timestamp: this.lastCandle?.timestamp ?? null,
+      price,
+      roundNumber: active ? (this.currentRound?.roundNumber ?? null) : null,
+      position: this.baseQuantity,
+      averageEntryPrice: this.averageEntryPrice,
+      capitalDeployed: this.capitalDeployed,
+      dcaLevelsUsed: this.nextDcaIndex,
+      triggers: {
+        nextDca: active && this.nextDcaIndex < this.config.maxDcaOrders ? this.calculateNextDcaTrigger() : null,
+        takeProfit: active && !this.trailingEnabled ? this.calculateTakeProfitTrigger() : null,
+        stopLoss: active ? this.calculateStopLossTrigger() : null,
+        trailingStop: active ? this.calculateTrailingTrigger() : null,
+      },
+      cash: this.account.balance(),
+      equity: price === null ? this.account.balance() : this.calculateCurrentValue(price),
+    };
+  }
+
+  public getStats(): EngineStats {
+    return structuredClone(this.stats);
+  }
+
+  public serialize(): EngineState {
+    return structuredClone({
+      version: ENGINE_STATE_VERSION,
+      config: this.config,
+      cash: this.account.balance(),
+      lastCandle: this.lastCandle,
+      roundsCompleted: this.roundsCompleted,
+      round: this.roundActive
+        ? {
+            baseEntryPrice: this.baseEntryPrice,
+            nextDcaIndex: this.nextDcaIndex,
+            baseQuantity: this.baseQuantity,
+            quoteQuantity: this.quoteQuantity,
+            totalCostBasis: this.totalCostBasis,
+            averageEntryPrice: this.averageEntryPrice,
+            capitalDeployed: this.capitalDeployed,
+            peakPrice: this.peakPrice,
+            trailingArmed: this.trailingArmed,
+            roundCosts: this.roundCosts,
+            entries: this.entries,
+            result: this.currentRound ?? {},
+          }
+        : null,
+      stats: this.stats,
+      gate: this.entryGate.save(),
+    });
+  }
+
+  private stepResult(): EngineStep {
+    return { intents: this.intents, closedRounds: this.closedRounds, snapshot: this.snapshot() };
+  }
+
+  private get fillModel(): FillModel {
+    return this.config.fillModel ?? 'CLOSE';
+  }
+
+  private processCandle(candle: Candle): void {
+    const price = candle.close;
+    const activeAtOpen = this.roundActive;
+    this.entryGate.update(candle);
+
+    if (!this.roundActive) {
+      // Start new round if we have capital and the entry conditions agree
+      if (this.account.available() >= this.config.baseOrderSize) {
+        const entry = this.entryGate.evaluate();
+        if (entry.allowed) {
+          this.startRound(candle);
+        } else {
+          this.stats.entriesBlocked++;
+          for (const i of entry.failed) {
+            this.stats.entryFilterSkipped[i] = (this.stats.entryFilterSkipped[i] ?? 0) + 1;
+          }
+        }
+      }
+    } else if (this.fillModel === 'CLOSE') {
+      // Check for DCA trigger
+      const dcaTrigger = this.calculateNextDcaTrigger();
+      const shouldTriggerDca =
+        this.config.side === 'BUY' ? price <= dcaTrigger : price >= dcaTrigger;
+
+      if (shouldTriggerDca && this.nextDcaIndex < this.config.maxDcaOrders) {
+        this.executeDca(candle, price);
+      }
+
+      // Check for stop-loss trigger
+      const slTrigger = this.calculateStopLossTrigger();
+      const shouldTriggerSl =
+        slTrigger !== null && (this.config.side === 'BUY' ? price <= slTrigger : price >= slTrigger);
+
+      if (shouldTriggerSl) {
+        this.closeRound(candle, price, 'STOP_LOSS');
+      } else if (this.trailingEnabled) {
+        // Check for trailing take-profit trigger
+        this.updateTrailing(price);
+        const trailTrigger = this.calculateTrailingTrigger();
+        const shouldTriggerTrail =
+          trailTrigger !== null &&
+          (this.config.side === 'BUY' ? price <= trailTrigger : price >= trailTrigger);
+
+        if (shouldTriggerTrail) {
+          this.closeRound(candle, price, 'TRAILING');
+        }
+      } else {
+        // Check for take-profit trigger
+        const tpTrigger = this.calculateTakeProfitTrigger();
+        const shouldTriggerTp =
+          this.config.side === 'BUY' ? price >= tpTrigger : price <= tpTrigger;
+
+        if (shouldTriggerTp) {
+          this.closeRound(candle, price, 'TAKE_PROFIT');
+        }
+      }
+    } else {
+      // Walk the intrabar path; the move from the previous close to the open is a gap
+      let gap = true;
+      for (const to of this.intrabarPath(candle)) {
+        if (!this.roundActive) break;
+        this.processPathSegment(candle, to, gap);
+        gap = false;
+      }
+    }
+
+    // Timeout is checked at the close, after any intrabar exits
+    const maxDurationHours = this.config.maxRoundDurationHours ?? 0;
+    const roundAge = candle.timestamp - (this.currentRound?.startTimestamp ?? candle.timestamp);
+    if (this.roundActive && maxDurationHours > 0 && roundAge >= maxDurationHours * 60 * 60 * 1000) {
+      this.closeRound(candle, price, 'TIMEOUT');
+    }
+
+    // A candle counts as in market if a position was held at any point in it
+    if (activeAtOpen || this.roundActive) this.stats.candlesInMarket++;
+  }
+
+  /**
+   * Price waypoints visited inside a candle, in order, for the configured fill model
+   */
+  private intrabarPath(candle: Candle): number[] {
+    const adverse = this.config.side === 'BUY' ? candle.low : candle.high;
+
+    switch (this.fillModel) {
+      case 'OLHC':
+        return [candle.open, candle.low, candle.high, candle.close];
+      case 'OHLC':
+        return [candle.open, candle.high, candle.low, candle.close];
+      case 'WORST_CASE':
+        return [candle.open, adverse, candle.close];
+      default:
+        return [candle.close];
+    }
+  }
+
+  /**
+   * Price moves monotonically towards `to`. Every trigger crossed fills at
+   * its trigger price, or at `to` when the move is a gap (no trading in between).
+   * Adverse triggers (DCA, stop-loss, trailing stop) are taken in the order
+   * the price reaches them; the averages they depend on are recomputed after each fill.
+   */
+  private processPathSegment(candle: Candle, to: number, gap: boolean): void {
+    const isBuy = this.config.side === 'BUY';
+    const crossedAdverse = (level: number) => (isBuy ? to <= level : to >= level);
+
+    while (this.roundActive) {
+      const triggers: { level: number; fill: (price: number) => void }[] = [];
+
+      const dcaTrigger = this.calculateNextDcaTrigger();
+      if (crossedAdverse(dcaTrigger) && this.nextDcaIndex < this.config.maxDcaOrders) {
+        triggers.push({ level: dcaTrigger, fill: (p) => this.executeDca(candle, p) });
+      }
+
+      const slTrigger = this.calculateStopLossTrigger();
+      if (slTrigger !== null && crossedAdverse(slTrigger)) {
+        triggers.push({ level: slTrigger, fill: (p) => this.closeRound(candle, p, 'STOP_LOSS') });
+      }
+
+      const trailTrigger = this.calculateTrailingTrigger();
+      if (trailTrigger !== null && crossedAdverse(trailTrigger)) {
+        triggers.push({ level: trailTrigger, fill: (p) => this.closeRound(candle, p, 'TRAILING') });
+      }
+
+      if (triggers.length === 0) break;
+
+      // The level nearest the current price is reached first
+      triggers.sort((a, b) => (isBuy ? b.level - a.level : a.level - b.level));
+      const nearest = triggers[0]!;
+      nearest.fill(gap ? to : nearest.level);
+    }
+
+    if (!this.roundActive) return;
+
+    if (this.trailingEnabled) {
+      // A favourable move can only raise the peak, never hit the trailing stop
+      this.updateTrailing(to);
+      return;
+    }
+
+    const tpTrigger = this.calculateTakeProfitTrigger();
+    const tpCrossed = isBuy ? to >= tpTrigger : to <= tpTrigger;
+
+    if (tpCrossed) {
+      this.closeRound(candle, gap ? to : tpTrigger, 'TAKE_PROFIT');
+    }
+  }
+
+  private startRound(candle: Candle): void {
+    const price = candle.close;
+    const orderSize = this.config.baseOrderSize;
+
+    if (this.account.available() < orderSize) return;
+
+    this.account.withdraw(orderSize);
+    this.trackDeployed(orderSize);
+    this.roundActive = true;
+    this.baseEntryPrice = price;
+    this.nextDcaIndex = 0;
+    this.peakPrice = price;
+    this.trailingArmed = false;
+    this.roundCosts = emptyCosts();
+
+    // Execute base order (market order, pays taker fee)
+    const { quantity, quote, netOrderSize, fillPrice } = this.fillEntry(candle, price, orderSize, true);
+
+    if (this.config.side === 'BUY') {
+      this.baseQuantity = quantity;
+      this.totalCostBasis = netOrderSize;
+    } else {
+      // SELL side: borrow base, sell for quote
+      this.baseQuantity = -quantity; // Negative = short position
+      this.quoteQuantity = quote;
+      this.totalCostBasis = netOrderSize;
+    }
+
+    this.averageEntryPrice = fillPrice;
+
+    this.entries = [
+      {
+        timestamp: candle.timestamp,
+        price: fillPrice,
+        type: 'BASE',
+        quantity: Math.abs(this.baseQuantity),
+        cost: netOrderSize,
+      },
+    ];
+
+    this.currentRound = {
+      roundNumber: this.roundsCompleted + 1,
+      startTimestamp: candle.timestamp,
+      entryPrice: price,
+      tradesExecuted: 1,
+      dcaLevelsUsed: 0,
+      fillModel: this.fillModel,
+      entries: [...this.entries],
+    };
+
+    this.emit(this.entries[0]!, price, true);
+  }
+
+  private executeDca(candle: Candle, price: number): void {
+    // Calculate DCA order size with multiplier
+    const baseSize = this.config.dcaOrderSize;
+    const multiplier = Math.pow(
+      this.config.orderSizeMultiplier / 1000,
+      this.nextDcaIndex
+    );
+    const orderSize = baseSize * multiplier;
+
+    if (this.account.available() < orderSize) {
+      // Insufficient capital, skip this DCA
+      this.account.dcaSkipped?.(orderSize, this.nextDcaIndex + 1, candle.timestamp);
+      this.nextDcaIndex++;
+      this.stats.dcaOrdersSkipped++;
+      return;
+    }
+
+    this.account.withdraw(orderSize);
+    this.trackDeployed(orderSize);
+
+    // DCA orders rest at their trigger price, so they pay the maker fee
+    const { quantity, quote, netOrderSize, fillPrice } = this.fillEntry(candle, price, orderSize, false);
+
+    if (this.config.side === 'BUY') {
+      this.baseQuantity += quantity;
+      this.totalCostBasis += netOrderSize;
+    } else {
+      this.baseQuantity -= quantity; // More short
+      this.quoteQuantity += quote;
+      this.totalCostBasis += netOrderSize;
+    }
+
+    // Update average entry price (weighted)
+    if (this.config.side === 'BUY') {
+      this.averageEntryPrice = this.totalCostBasis / this.baseQuantity;
+    } else {
+      this.averageEntryPrice = this.quoteQuantity / Math.abs(this.baseQuantity);
+    }
+
+    const entry: TradeEntry = {
+      timestamp: candle.timestamp,
+      price: fillPrice,
+      type: 'DCA',
+      dcaLevel: this.nextDcaIndex + 1,
+      quantity,
+      cost: netOrderSize,
+    };
+    this.entries.push(entry);
+    this.emit(entry, price, false);
+
+    this.nextDcaIndex++;
+
+    // The average moved, so the trailing take-profit has to re-arm from it
+    this.peakPrice = price;
+    this.trailingArmed = false;
+
+    if (this.currentRound) {
+      this.currentRound.tradesExecuted = (this.currentRound.tradesExecuted || 0) + 1;
+      this.currentRound.dcaLevelsUsed = this.nextDcaIndex;
+      this.currentRound.averageEntryPrice = this.averageEntryPrice;
+    }
+  }
+
+  private closeRound(candle: Candle, price: number, reason: ExitReason): void {
+    // Only the take-profit rests on the book; every other exit is a market order
+    const quantity = Math.abs(this.baseQuantity);
+    const costs = this.fillCosts(candle, quantity * price, reason !== 'TAKE_PROFIT');
+
+    let proceeds = 0;
+    let fillPrice = price;
+    if (this.config.side === 'BUY') {
+      // Sell all accumulated base
+      fillPrice = price * (1 - costs.slippage);
+      proceeds = quantity * fillPrice;
+    } else {
+      // Buy back the short position
+      fillPrice = price * (1 + costs.slippage);
+      const buybackCost = quantity * fillPrice;
+      proceeds = this.quoteQuantity - buybackCost;
+    }
+
+    // Deduct keeper fee, exchange fee and gas
+    const keeperFee = (proceeds * this.config.keeperFeeBps) / 10000;
+    const netProceeds = proceeds - keeperFee - costs.exchangeFee - costs.gas;
+
+    this.roundCosts = addCosts(this.roundCosts, {
+      keeperFees: keeperFee,
+      exchangeFees: costs.exchangeFee,
+      gas: costs.gas,
+      slippage: quantity * Math.abs(fillPrice - price),
+    });
+    this.stats.costs = addCosts(this.stats.costs, this.roundCosts);
+
+    // PnL against everything the round took from capital, so entry costs count too
+    const realizedPnL = netProceeds - this.capitalDeployed;
+    const realizedPnLPercent = (realizedPnL / this.capitalDeployed) * 100;
+
+    this.account.deposit(netProceeds);
+    this.entryGate.roundClosed(reason);
+
+    const exit: TradeEntry = {
+      timestamp: candle.timestamp,
+      price: fillPrice,
+      type: reason,
+      quantity: Math.abs(this.baseQuantity),
+      cost: netProceeds,
+    };
+    this.entries.push(exit);
+    this.emit(exit, price, reason !== 'TAKE_PROFIT');
+
+    if (this.currentRound) {
+      this.currentRound.endTimestamp = candle.timestamp;
+      this.currentRound.exitPrice = fillPrice;
+      this.currentRound.averageEntryPrice = this.averageEntryPrice;
+      this.currentRound.tradesExecuted = (this.currentRound.tradesExecuted || 0) + 1;
+      this.currentRound.realizedPnL = realizedPnL;
+      this.currentRound.realizedPnLPercent = realizedPnLPercent;
+      this.currentRound.exitReason = reason;
+      this.currentRound.costs = this.roundCosts;
+      this.currentRound.entries = [...this.entries];
+
+      this.closedRounds.push(this.currentRound as RoundResult);
+    }
+    this.roundsCompleted++;
+
+    // Reset round state
+    this.roundActive = false;
+    this.baseEntryPrice = 0;
+    this.nextDcaIndex = 0;
+    this.baseQuantity = 0;
+    this.quoteQuantity = 0;
+    this.totalCostBasis = 0;
+    this.averageEntryPrice = 0;
+    this.capitalDeployed = 0;
+    this.peakPrice = 0;
+    this.trailingArmed = false;
+    this.roundCosts = emptyCosts();
+    this.entries = [];
+    this.currentRound = null;
+  }
+
+  private emit(entry: TradeEntry, triggerPrice: number, taker: boolean): void {
+    const entering = entry.type === 'BASE' || entry.type === 'DCA';
+    const buying = entering === (this.config.side === 'BUY');
+
+    this.intents.push({
+      ...entry,
+      roundNumber: this.currentRound?.roundNumber ?? this.roundsCompleted + 1,
+      action: buying ? 'BUY' : 'SELL',
+      triggerPrice,
+      taker,
+    });
+  }
+
+  /**
+   * Fill an entry order of `orderSize` gross quote units: keeper fee, exchange fee and gas
+   * come off the notional, slippage moves the fill price against the position
+   */
+  private fillEntry(
+    candle: Candle,
+    price: number,
+    orderSize: number,
+    taker: boolean
+  ): { quantity: number; quote: number; netOrderSize: number; fillPrice: number } {
+    const keeperFee = (orderSize * this.config.keeperFeeBps) / 10000;
+    const costs = this.fillCosts(candle, orderSize, taker);
+    const netOrderSize = Math.max(0, orderSize - keeperFee - costs.exchangeFee - costs.gas);
+
+    let quantity: number;
+    let quote: number;
+    let fillPrice: number;
+    if (this.config.side === 'BUY') {
+      fillPrice = price * (1 + costs.slippage);
+      quantity = netOrderSize / fillPrice;
+      quote = netOrderSize;
+    } else {
+      fillPrice = price * (1 - costs.slippage);
+      quantity = netOrderSize / price;
+      quote = quantity * fillPrice;
+    }
+
+    this.roundCosts = addCosts(this.roundCosts, {
+      keeperFees: keeperFee,
+      exchangeFees: costs.exchangeFee,
+      gas: costs.gas,
+      slippage: quantity * Math.abs(fillPrice - price),
+    });
+
+    return { quantity, quote, netOrderSize, fillPrice };
+  }
+
+  /**
+   * Exchange fee and gas in quote units, slippage as a fraction of the price
+   */
+  private fillCosts(
+    candle: Candle,
+    notional: number,
+    taker: boolean
+  ): { exchangeFee: number; gas: number; slippage: number } {
+    const model = this.config.costModel;
+    if (!model) return { exchangeFee: 0, gas: 0, slippage: 0 };
+
+    return {
+      exchangeFee: (notional * exchangeFeeBps(model, taker)) / 10000,
+      gas: model.gasPerFill,
+      slippage: slippageBps(model, notional, candle.volume) / 10000,
+    };
+  }
+
+  private trackDeployed(orderSize: number): void {
+    this.capitalDeployed += orderSize;
+    this.stats.maxCapitalDeployed = Math.max(this.stats.maxCapitalDeployed, this.capitalDeployed);
+  }
+
+  private calculateNextDcaTrigger(): number {
+    const cumulativeDev = this.calculateCumulativeDeviation(this.nextDcaIndex);
+
+    if (this.config.side === 'BUY') {
+      return this.baseEntryPrice * (1 - cumulativeDev / 10000);
+    } else {
+      return this.baseEntryPrice * (1 + cumulativeDev / 10000);
+    }
+  }
+
+  private calculateTakeProfitTrigger(): number {
+    const tpBps = this.config.takeProfitBps;
+
+    if (this.config.side === 'BUY') {
+      return this.averageEntryPrice * (1 + tpBps / 10000);
+    } else {
+      return this.averageEntryPrice * (1 - tpBps / 10000);
+    }
+  }
+
+  /**
+   * Stop-loss price, or null while it is off or not yet armed
+   */
+  private calculateStopLossTrigger(): number | null {
+    const slBps = this.config.stopLossBps ?? 0;
+    if (slBps <= 0) return null;
+
+    if (
+      this.config.stopLossMode === 'AFTER_LAST_DCA' &&
+      this.nextDcaIndex < this.config.maxDcaOrders
+    ) {
+      return null;
+    }
+
+    if (this.config.side === 'BUY') {
+      return this.averageEntryPrice * (1 - slBps / 10000);
+    } else {
+      return this.averageEntryPrice * (1 + slBps / 10000);
+    }
+  }
+
+  private get trailingEnabled(): boolean {
+    return (this.config.trailingArmBps ?? 0) > 0 && (this.config.trailingPullbackBps ?? 0) > 0;
+  }
+
+  /**
+   * Track the best price of the round and arm once it is far enough in profit
+   */
+  private updateTrailing(price: number): void {
+    const isBuy = this.config.side === 'BUY';
+    if (isBuy ? price > this.peakPrice : price < this.peakPrice) {
+      this.peakPrice = price;
+    }
+
+    const armBps = this.config.trailingArmBps ?? 0;
+    const armPrice = isBuy
+      ? this.averageEntryPrice * (1 + armBps / 10000)
+      : this.averageEntryPrice * (1 - armBps / 10000);
+
+    if (isBuy ? this.peakPrice >= armPrice : this.peakPrice <= armPrice) {
+      this.trailingArmed = true;
+    }
+  }
+
+  /**
+   * Trailing stop price, or null until the trailing take-profit is armed
+   */
+  private calculateTrailingTrigger(): number | null {
+    if (!this.trailingEnabled || !this.trailingArmed) return null;
+
+    const pullbackBps = this.config.trailingPullbackBps ?? 0;
+
+    if (this.config.side === 'BUY') {
+      return this.peakPrice * (1 - pullbackBps / 10000);
+    } else {
+      return this.peakPrice * (1 + pullbackBps / 10000);
+    }
+  }
+
+  private calculateCumulativeDeviation(dcaIndex: number): number {
+    // sum(dev * mult^i) for i=0 to dcaIndex
+    let cumulative = 0;
+    const dev = this.config.priceDeviationBps;
+    const mult = this.config.deviationMultiplier / 1000;
+
+    for (let i = 0; i <= dcaIndex; i++) {
+      cumulative += dev * Math.pow(mult, i);
+    }
+
+    return cumulative;
+  }
+
+  private calculateCurrentValue(currentPrice: number): number {
+    let value = this.account.balance();
+
+    if (this.roundActive) {
+      if (this.config.side === 'BUY') {
+        value += this.baseQuantity * currentPrice;
+      } else {
+        // Value = quote held - cost to buy back short
+        value += this.quoteQuantity - Math.abs(this.baseQuantity) * currentPrice;
+      }
+    }
+
+    return value;
+  }
+}
@@ -0,0 +1,466 @@
+import type {
+  EscrowLadderConfig,
+  Candle,
+  BacktestResults,
+  RoundResult,
+  TradeEntry,
+  SellOrder,
+} from './types';
+import { calculateDrawdown, calculateRiskMetrics } from './metrics';
+import { calculateBenchmarks } from './benchmarks';
+import { emptyCosts } from './costs';
+
+const BPS = 10_000n;
+const PRICE_SCALE = 100_000_000n; // 1e8, same as Escrow.PRICE_SCALE
+
+/**
+ * Escrow Ladder Backtesting Engine
+ * Replays the Escrow.sol sell ladder against historical candles:
+ * - buy(): arbitrageurs take every rung priced below the market, filling from lastExecuteOrder
+ * - sell(): sellers hit the rebuy ladder starting at avgSell * (BPS - takeProfitBPS) when it is above the market
+ * - _resetToSellingFromOracle(): after a rebuy the ladder is rebuilt at the market price, capped to inventory
+ *
+ * All ladder math uses bigint with the contract's 1e8 price scale and floor/ceil rounding.
+ * Candle prices are taken as the oracle cross-rate (asset1 per asset0).
+ */
+export class EscrowLadderBacktester {
+  private config: EscrowLadderConfig;
+  private candles: Candle[];
+  private benchmarkDcaIntervalHours: number;
+  private asset0DecimalsFactor: bigint;
+  private asset1DecimalsFactor: bigint;
+
+  // Escrow state
+  private sellOrders: SellOrder[] = [];
+  private lastExecuteOrder = 0;
+  private balance0 = 0n;
+  private balance1 = 0n;
+
+  // Reporting state (one round = one ladder cycle, from reset to rebuy)
+  private rounds: RoundResult[] = [];
+  private currentRound: Partial<RoundResult> | null = null;
+  private entries: TradeEntry[] = [];
+  private equity: { timestamp: number; value: number }[] = [];
+  private candlesInMarket = 0;
+  private maxCapitalDeployed = 0;
+
+  constructor(config: EscrowLadderConfig, candles: Candle[], benchmarkDcaIntervalHours = 24) {
+    this.config = config;
+    this.candles = candles;
+    this.benchmarkDcaIntervalHours = benchmarkDcaIntervalHours;
+    this.asset0DecimalsFactor = 10n ** BigInt(config.asset0Decimals);
+    this.asset1DecimalsFactor = 10n ** BigInt(config.asset1Decimals);
+  }
+
+  /**
+   * Run the backtest simulation
+   */
+  public run(): BacktestResults<EscrowLadderConfig> {
+    this.reset();
+
+    const first = this.candles[0];
+    if (first) {
+      // initialize(): ladder at the spot price, owner deposits exactly the ladder total
+      this.sellOrders = this.previewOrdersIncreasing(this.toPrice1e8(first.close));
+      this.balance0 = this.sumAmounts(this.sellOrders);
+      this.startRound(first);
+    }
+
+    for (const candle of this.candles) {
+      this.processCandle(candle);
+    }
+
+    // A cycle still open at the end has no rebuy, so it is only reflected in equity
+    return this.generateResults();
+  }
+
+  private reset(): void {
+    this.sellOrders = [];
+    this.lastExecuteOrder = 0;
+    this.balance0 = 0n;
+    this.balance1 = 0n;
+    this.rounds = [];
+    this.currentRound = null;
+    this.entries = [];
+    this.equity = [];
+    this.candlesInMarket = 0;
+    this.maxCapitalDeployed = 0;
+  }
+
+  private processCandle(candle: Candle): void {
+    const market = this.toPrice1e8(candle.close);
+
+    if (this.totalSoldAsset0() > 0n && this.rebuyStartPrice() > market) {
+      this.executeSell(candle, market);
+    } else {
+      this.executeBuy(candle, market);
+    }
+
+    // The escrow is exposed while it holds asset0; that inventory is the capital at risk
+    if (this.balance0 > 0n) {
+      this.candlesInMarket++;
+      const deployed = this.toAsset0(this.balance0) * candle.close;
+      this.maxCapitalDeployed = Math.max(this.maxCapitalDeployed, deployed);
+    }
+
+    // Track equity
+    const currentValue = this.calculateCurrentValue(candle.close);
+    this.equity.push({ timestamp: candle.timestamp, value: currentValue });
+  }
+
+  private startRound(candle: Candle): void {
+    this.entries = [];
+    this.currentRound = {
+      roundNumber: this.rounds.length + 1,
+      startTimestamp: candle.timestamp,
+      entryPrice: this.fromPrice1e8(this.sellOrders[0]?.price ?? 0n),
+      tradesExecuted: 0,
+      dcaLevelsUsed: 0,
+      fillModel: 'CLOSE',
+      entries: [],
+    };
+  }
+
+  /**
+   * Mirrors Escrow.buy() for an arbitrageur paying exactly enough asset1
+   * to clear every remaining rung priced below the market
+   */
+  private executeBuy(candle: Candle, market: bigint): void {
+    let amount1In = 0n;
+    for (let j = this.lastExecuteOrder; j < this.sellOrders.length; j++) {
+      const o = this.sellOrders[j]!;
+      if (o.price >= market) break;
+      amount1In += this.quoteAsset1InCeil(o.amount - o.filled, o.price);
+    }
+
+    if (amount1In === 0n) return;
+
+    let remainingIn = amount1In;
+
+    let i = this.lastExecuteOrder;
+    while (i < this.sellOrders.length && remainingIn > 0n) {
+      const o = this.sellOrders[i]!;
+
+      if (o.filled === o.amount) {
+        i++;
+        continue;
+      }
+
+      const remaining0 = o.amount - o.filled;
+
+      const maxFill0 = this.quoteAsset0Out(remainingIn, o.price);
+      if (maxFill0 === 0n) break;
+
+      let fill0 = maxFill0 >= remaining0 ? remaining0 : maxFill0;
+
+      let need1 = this.quoteAsset1InCeil(fill0, o.price);
+      if (need1 === 0n) break;
+
+      if (need1 > remainingIn) {
+        if (fill0 <= 1n) break;
+        fill0 -= 1n;
+        need1 = this.quoteAsset1InCeil(fill0, o.price);
+        if (need1 > remainingIn) break;
+      }
+
+      remainingIn -= need1;
+      o.filled += fill0;
+
+      this.balance0 -= fill0;
+      this.balance1 += need1;
+
+      this.entries.push({
+        timestamp: candle.timestamp,
+        price: this.fromPrice1e8(o.price),
+        type: i === 0 ? 'BASE' : 'DCA',
+        dcaLevel: i === 0 ? undefined : i,
+        quantity: this.toAsset0(fill0),
+        cost: this.toAsset1(need1),
+      });
+
+      if (this.currentRound) {
+        this.currentRound.tradesExecuted = (this.currentRound.tradesExecuted || 0) + 1;
+        this.currentRound.dcaLevelsUsed = Math.max(this.currentRound.dcaLevelsUsed || 0, i);
+      }
+
+      if (o.filled === o.amount) i++;
+      else break;
+    }
+
+    this.lastExecuteOrder = i;
+  }
+
+  /**
+   * Mirrors Escrow.sell() for a seller covering every rebuy step priced above the market,
+   * followed by _resetToSellingFromOracle(). A call that would revert leaves state untouched.
+   */
+  private executeSell(candle: Candle, market: bigint): void {
+    const p = this.config.params;
+
+    const avgSell = this.averageSellPrice1e8();
+    if (avgSell === 0n) return;
+
+    const start = this.rebuyStartPrice();
+    if (start === 0n) return;
+
+    const initialDelta = (avgSell * BigInt(p.priceDeviationBPS)) / BPS;
+    if (initialDelta >= start) return;
+
+    // Size the trade: sum of filled amounts on the steps priced above the market
+    let amount0In = 0n;
+    {
+      let delta = initialDelta;
+      let price = start;
+      for (let i = 0; i < this.sellOrders.length && price > market; i++) {
+        amount0In += this.sellOrders[i]!.filled;
+
+        if (i + 1 < this.sellOrders.length) {
+          delta = (delta * BigInt(p.priceMultiplierBPS)) / BPS;
+          if (price <= delta) break;
+          price -= delta;
+        }
+      }
+    }
+
+    if (amount0In === 0n) return;
+
+    let remainingIn0 = amount0In;
+    let totalOut1 = 0n;
+
+    let delta = initialDelta;
+    let price = start;
+
+    for (let i = 0; i < this.sellOrders.length && remainingIn0 > 0n; i++) {
+      const soldStep0 = this.sellOrders[i]!.filled;
+      if (soldStep0 !== 0n) {
+        const use0 = remainingIn0 > soldStep0 ? soldStep0 : remainingIn0;
+
+        const out1 = this.quoteAsset1In(use0, price);
+        if (out1 === 0n) break;
+
+        remainingIn0 -= use0;
+        totalOut1 += out1;
+      }
+
+      if (i + 1 < this.sellOrders.length) {
+        delta = (delta * BigInt(p.priceMultiplierBPS)) / BPS;
+        if (price <= delta) return; // "price underflow"
+        price -= delta;
+      }
+    }
+
+    // The escrow pays out of the asset1 it collected; a shortfall reverts the transfer
+    if (totalOut1 === 0n || totalOut1 > this.balance1) return;
+
+    const sold0 = amount0In - remainingIn0;
+
+    this.balance0 += sold0;
+    this.balance1 -= totalOut1;
+
+    // Profit on the rebought quantity, as in calculateRebuyProfit
+    const soldValue1 = this.quoteAsset1In(sold0, avgSell);
+    const realizedPnL = this.toAsset1(soldValue1) - this.toAsset1(totalOut1);
+    const realizedPnLPercent =
+      soldValue1 > 0n ? (realizedPnL / this.toAsset1(soldValue1)) * 100 : 0;
+
+    const exitPrice = this.toAsset1(totalOut1) / this.toAsset0(sold0);
+
+    this.entries.push({
+      timestamp: candle.timestamp,
+      price: exitPrice,
+      type: 'TAKE_PROFIT',
+      quantity: this.toAsset0(sold0),
+      cost: this.toAsset1(totalOut1),
+    });
+
+    if (this.currentRound) {
+      this.currentRound.endTimestamp = candle.timestamp;
+      this.currentRound.exitPrice = exitPrice;
+      this.currentRound.averageEntryPrice = this.fromPrice1e8(avgSell);
+      this.currentRound.tradesExecuted = (this.currentRound.tradesExecuted || 0) + 1;
+      this.currentRound.realizedPnL = realizedPnL;
+      this.currentRound.realizedPnLPercent = realizedPnLPercent;
+      this.currentRound.exitReason = 'TAKE_PROFIT';
+      this.currentRound.costs = emptyCosts(); // No cost model for the ladder yet
+      this.currentRound.entries = [...this.entries];
+
+      this.rounds.push(this.currentRound as RoundResult);
+    }
+
+    this.resetToSellingFromOracle(market);
+    this.startRound(candle);
+  }
+
+  private resetToSellingFromOracle(startPrice1e8: bigint): void {
+    const raw = this.previewOrdersIncreasing(startPrice1e8);
+    this.sellOrders = this.capOrdersToInventory(raw, this.balance0);
+    this.lastExecuteOrder = 0;
+  }
+
+  private rebuyStartPrice(): bigint {
+    const avgSell = this.averageSellPrice1e8();
+    return (avgSell * (BPS - BigInt(this.config.params.takeProfitBPS))) / BPS;
+  }
+
+  // --- contract math (Escrow.sol) ---
+
+  private previewOrdersIncreasing(startPrice1e8: bigint): SellOrder[] {
+    const p = this.config.params;
+    const orders: SellOrder[] = [];
+
+    let delta = (startPrice1e8 * BigInt(p.priceDeviationBPS)) / BPS;
+    let price = startPrice1e8;
+
+    orders.push({ amount: p.baseOrderAmount, filled: 0n, price });
+
+    let currentOrderSize = p.dcaOrderAmount;
+    for (let i = 1; i < p.dcaOrdersSize; i++) {
+      delta = (delta * BigInt(p.priceMultiplierBPS)) / BPS;
+      price += delta;
+
+      orders.push({ amount: currentOrderSize, filled: 0n, price });
+
+      currentOrderSize = (currentOrderSize * (BPS + BigInt(p.dcaOrderSizeMultiplierBPS))) / BPS;
+    }
+
+    return orders;
+  }
+
+  private capOrdersToInventory(raw: SellOrder[], inventory0: bigint): SellOrder[] {
+    let remaining = inventory0;
+
+    for (const order of raw) {
+      if (remaining === 0n) {
+        order.amount = 0n;
+        order.filled = 0n;
+        continue;
+      }
+
+      if (order.amount <= remaining) {
+        remaining -= order.amount;
+      } else {
+        order.amount = remaining;
+        order.filled = 0n;
+        remaining = 0n;
+      }
+    }
+
+    return raw;
+  }
+
+  private sumAmounts(orders: SellOrder[]): bigint {
+    return orders.reduce((sum, o) => sum + o.amount, 0n);
+  }
+
+  private totalSoldAsset0(): bigint {
+    return this.sellOrders.reduce((sum, o) => sum + o.filled, 0n);
+  }
+
+  private averageSellPrice1e8(): bigint {
+    let totalFilled0 = 0n;
+    let totalCost1 = 0n;
+
+    for (const o of this.sellOrders) {
+      if (o.filled === 0n) continue;
+
+      totalFilled0 += o.filled;
+      totalCost1 += this.quoteAsset1InCeil(o.filled, o.price);
+    }
+
+    if (totalFilled0 === 0n) return 0n;
+
+    return (totalCost1 * this.asset0DecimalsFactor * PRICE_SCALE) / (totalFilled0 * this.asset1DecimalsFactor);
+  }
+
+  private quoteAsset0Out(asset1In: bigint, price1e8: bigint): bigint {
+    return (asset1In * this.asset0DecimalsFactor * PRICE_SCALE) / (price1e8 * this.asset1DecimalsFactor);
+  }
+
+  private quoteAsset1In(asset0Qty: bigint, price1e8: bigint): bigint {
+    return (asset0Qty * price1e8 * this.asset1DecimalsFactor) / (this.asset0DecimalsFactor * PRICE_SCALE);
+  }
+
+  private quoteAsset1InCeil(asset0Qty: bigint, price1e8: bigint): bigint {
+    const num = asset0Qty * price1e8 * this.asset1DecimalsFactor;
+    const den = this.asset0DecimalsFactor * PRICE_SCALE;
+    return (num + den - 1n) / den;
+  }
+
+  // --- unit conversion for reporting ---
+
+  private toPrice1e8(price: number): bigint {
+    return BigInt(Math.round(price * Number(PRICE_SCALE)));
+  }
+
+  private fromPrice1e8(price: bigint): number {
+    return Number(price) / Number(PRICE_SCALE);
+  }
+
+  private toAsset0(amount: bigint): number {
+    return Number(amount) / Number(this.asset0DecimalsFactor);
+  }
+
+  private toAsset1(amount: bigint): number {
+    return Number(amount) / Number(this.asset1DecimalsFactor);
+  }
+
+  private calculateCurrentValue(currentPrice: number): number {
+    return this.toAsset1(this.balance1) + this.toAsset0(this.balance0) * currentPrice;
+  }
+
+  private generateResults(): BacktestResults<EscrowLadderConfig> {
+    const initialCapital = this.equity[0]?.value ?? 0;
+    const finalValue = this.equity[this.equity.length - 1]?.value || initialCapital;
+    const totalReturn = finalValue - initialCapital;
+    const totalReturnPercent = initialCapital > 0 ? (totalReturn / initialCapital) * 100 : 0;
+
+    const winningRounds = this.rounds.filter((r) => r.realizedPnL > 0).length;
+    const losingRounds = this.rounds.filter((r) => r.realizedPnL <= 0).length;
+    const winRate = this.rounds.length > 0 ? (winningRounds / this.rounds.length) * 100 : 0;
+
+    const totalTrades = this.rounds.reduce((sum, r) => sum + r.tradesExecuted, 0);
+    const averageRoundPnL =
+      this.rounds.length > 0
+        ? this.rounds.reduce((sum, r) => sum + r.realizedPnL, 0) / this.rounds.length
+        : 0;
+
+    const { maxDrawdown } = calculateDrawdown(this.equity, initialCapital);
+
+    return {
+      config: this.config,
+      startTimestamp: this.candles[0]?.timestamp || 0,
+      endTimestamp: this.candles[this.candles.length - 1]?.timestamp || 0,
+      initialCapital,
+      finalValue,
+      totalReturn,
+      totalReturnPercent,
+      roundsCompleted: this.rounds.length,
+      totalTrades,
+      winningRounds,
+      losingRounds,
+      winRate,
+      maxDrawdown,
+      averageRoundPnL,
+      dcaOrdersSkipped: 0, // Rungs are pre-funded at initialize()
+      rounds: this.rounds,
+      equity: this.equity,
+      costs: emptyCosts(),
+      breakEvenBaseOrderSize: 0, // Without costs any size breaks even
+      entriesBlocked: 0,
+      entryFilterSkips: [],
+      benchmarks: calculateBenchmarks(
+        this.candles,
+        initialCapital,
+        { totalReturnPercent, maxDrawdown },
+        this.benchmarkDcaIntervalHours
+      ),
+      ...calculateRiskMetrics({
+        equity: this.equity,
+        rounds: this.rounds,
+        initialCapital,
+        candlesInMarket: this.candlesInMarket,
+        maxCapitalDeployed: this.maxCapitalDeployed,
+      }),
+    };
+  }
+}
@@ -0,0 +1,81 @@
+import type { Candle, BenchmarkKind, BenchmarkResult } from './types';
+import { calculateDrawdown } from './metrics';
+
+/**
+ * Passive benchmarks run over the same candles and capital as the strategy.
+ * Benchmarks trade at the candle close without fees.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+
+type EquityPoint = { timestamp: number; value: number };
+
+/**
+ * All capital bought at the first close
+ */
+function buyAndHold(candles: Candle[], initialCapital: number): EquityPoint[] {
+  const first = candles[0];
+  const quantity = first ? initialCapital / first.close : 0;
+  return candles.map((c) => ({ timestamp: c.timestamp, value: quantity * c.close }));
+}
+
+/**
+ * Equal slices of capital bought every `intervalHours`, fully invested by the last candle
+ */
+function timeDca(candles: Candle[], initialCapital: number, intervalHours: number): EquityPoint[] {
+  const first = candles[0];
+  const last = candles[candles.length - 1];
+  if (!first || !last) return [];
+
+  const intervalMs = Math.max(1, intervalHours) * HOUR_MS;
+  const start = first.timestamp;
+  const span = last.timestamp - start;
+  const slice = initialCapital / (Math.floor(span / intervalMs) + 1);
+
+  let cash = initialCapital;
+  let quantity = 0;
+  let nextBuy = start;
+
+  return candles.map((c) => {
+    if (c.timestamp >= nextBuy && cash > 0) {
+      const amount = Math.min(slice, cash);
+      cash -= amount;
+      quantity += amount / c.close;
+      nextBuy = start + (Math.floor((c.timestamp - start) / intervalMs) + 1) * intervalMs;
+    }
+    return { timestamp: c.timestamp, value: cash + quantity * c.close };
+  });
+}
+
+/**
+ * Benchmark equity curves, with alpha and relative drawdown against the strategy
+ */
+export function calculateBenchmarks(
+  candles: Candle[],
+  initialCapital: number,
+  strategy: { totalReturnPercent: number; maxDrawdown: number },
+  dcaIntervalHours: number
+): BenchmarkResult[] {
+  const curves: [BenchmarkKind, EquityPoint[]][] = [
+    ['BUY_AND_HOLD', buyAndHold(candles, initialCapital)],
+    ['TIME_DCA', timeDca(candles, initialCapital, dcaIntervalHours)],
+    ['CASH', candles.map((c) => ({ timestamp: c.timestamp, value: initialCapital }))],
+  ];
+
+  return curves.map(([kind, equity]) => {
+    const finalValue = equity[equity.length - 1]?.value ?? initialCapital;
+    const totalReturnPercent =
+      initialCapital > 0 ? ((finalValue - initialCapital) / initialCapital) * 100 : 0;
+    const { maxDrawdown } = calculateDrawdown(equity, initialCapital);
+
+    return {
+      kind,
+      finalValue,
+      totalReturnPercent,
+      maxDrawdown,
+      alpha: strategy.totalReturnPercent - totalReturnPercent,
+      relativeDrawdown: strategy.maxDrawdown - maxDrawdown,
+      equity,
+    };
+  });
+}
@@ -0,0 +1,192 @@
+import type { Candle, CandleSource } from './types';
+
+/**
+ * Persistent candle cache, keyed by source, symbol and timeframe.
+ * Each series remembers which time ranges were fetched (a range can be covered
+ * and still have no candles), so only the uncovered parts are requested again.
+ * Storage is pluggable: IndexedDB in the browser, files in keep.
+ */
+
+export interface TimeRangeMs {
+  start: number;
+  end: number;
+}
+
+export interface CachedSeriesRecord {
+  key: string;
+  sourceKind: string;
+  symbol: string;
+  timeframe: string;
+  intervalMs: number;
+  candles: Candle[];
+  coverage: TimeRangeMs[];
+  updatedAt: number;
+}
+
+export interface CachedSeriesInfo {
+  key: string;
+  sourceKind: string;
+  symbol: string;
+  timeframe: string;
+  candles: number;
+  coverage: TimeRangeMs[];
+  updatedAt: number;
+}
+
+export interface CacheReport {
+  symbol: string;
+  cachedCandles: number; // Served from the cache
+  fetched: TimeRangeMs[]; // Ranges requested from the source this time
+  missing: TimeRangeMs[]; // Still uncovered (offline mode only)
+}
+
+export interface CandleStore {
+  get(key: string): Promise<CachedSeriesRecord | undefined>;
+  put(record: CachedSeriesRecord): Promise<void>;
+  list(): Promise<CachedSeriesRecord[]>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface CachedSourceOptions {
+  store: CandleStore;
+  timeframe: string;
+  intervalMs: number;
+  offline?: boolean; // Never call the source, serve what is cached
+  onReport?: (report: CacheReport) => void;
+}
+
+/**
+ * Wrap a source with the cache
+ */
+export function createCachedSource(inner: CandleSource, options: CachedSourceOptions): CandleSource {
+  return {
+    kind: inner.kind,
+    label: `${inner.label} (${options.offline ? 'cache only' : 'cached'})`,
+    load: async (symbol, start, end) => {
+      const key = seriesKey(inner.kind, symbol, options.timeframe);
+      const requested = { start: start.getTime(), end: end.getTime() };
+
+      const record: CachedSeriesRecord = (await options.store.get(key)) ?? {
+        key,
+        sourceKind: inner.kind,
+        symbol,
+        timeframe: options.timeframe,
+        intervalMs: options.intervalMs,
+        candles: [],
+        coverage: [],
+        updatedAt: 0,
+      };
+
+      // Whole buckets only, so a boundary candle is never built from half an hour of prices
+      const missing = mergeRanges(
+        subtractRanges(requested, record.coverage).map((r) => alignRange(r, options.intervalMs))
+      );
+      const cachedCandles = countInRange(record.candles, requested);
+
+      if (options.offline) {
+        options.onReport?.({ symbol, cachedCandles, fetched: [], missing });
+        if (cachedCandles === 0) {
+          throw new Error(`Nothing cached for ${symbol} in this range`);
+        }
+        return inRange(record.candles, requested);
+      }
+
+      // The current bucket is still forming, so it is never marked as covered
+      const settled = Math.floor(Date.now() / options.intervalMs) * options.intervalMs;
+      let candles = record.candles;
+      let fresh: Candle[] = [];
+
+      for (const range of missing) {
+        const fetched = await inner.load(symbol, new Date(range.start), new Date(range.end));
+        fresh = mergeCandles(fresh, fetched);
+        candles = mergeCandles(candles, fetched.filter((c) => c.timestamp < settled));
+        record.coverage = mergeRanges([
+          ...record.coverage,
+          { start: range.start, end: Math.min(range.end, settled - 1) },
+        ]);
+      }
+
+      if (missing.length > 0) {
+        record.candles = candles;
+        record.updatedAt = Date.now();
+        await options.store.put(record);
+      }
+
+      options.onReport?.({ symbol, cachedCandles, fetched: missing, missing: [] });
+
+      // Unsettled candles are served this time but not stored
+      return inRange(mergeCandles(candles, fresh.filter((c) => c.timestamp >= settled)), requested);
+    },
+  };
+}
+
+export function seriesKey(sourceKind: string, symbol: string, timeframe: string): string {
+  return `${sourceKind}:${symbol}:${timeframe}`;
+}
+
+/**
+ * Merge two sorted candle lists, later values win on equal timestamps
+ */
+export function mergeCandles(existing: Candle[], incoming: Candle[]): Candle[] {
+  const byTimestamp = new Map<number, Candle>();
+  for (const c of existing) byTimestamp.set(c.timestamp, c);
+  for (const c of incoming) byTimestamp.set(c.timestamp, c);
+  return [...byTimestamp.values()].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export function mergeRanges(ranges: TimeRangeMs[]): TimeRangeMs[] {
+  const sorted = ranges.filter((r) => r.end >= r.start).sort((a, b) => a.start - b.start);
+  const merged: TimeRangeMs[] = [];
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Parts of `range` not inside any of `covered`
+ */
+export function subtractRanges(range: TimeRangeMs, covered: TimeRangeMs[]): TimeRangeMs[] {
+  const missing: TimeRangeMs[] = [];
+  let cursor = range.start;
+
+  for (const c of mergeRanges(covered)) {
+    if (c.end < cursor) continue;
+    if (c.start > range.end) break;
+    if (c.start > cursor) missing.push({ start: cursor, end: c.start - 1 });
+    cursor = Math.max(cursor, c.end + 1);
+  }
+  if (cursor <= range.end) missing.push({ start: cursor, end: range.end });
+
+  return missing;
+}
+
+function alignRange(range: TimeRangeMs, intervalMs: number): TimeRangeMs {
+  return {
+    start: Math.floor(range.start / intervalMs) * intervalMs,
+    end: Math.ceil((range.end + 1) / intervalMs) * intervalMs - 1,
+  };
+}
+
+function inRange(candles: Candle[], range: TimeRangeMs): Candle[] {
+  return candles.filter((c) => c.timestamp >= range.start && c.timestamp <= range.end);
+}
+
+function countInRange(candles: Candle[], range: TimeRangeMs): number {
+  return inRange(candles, range).length;
+}
+
+/**
+ * Summaries of everything in a store, without the candles
+ */
+export async function listCachedSeries(store: CandleStore): Promise<CachedSeriesInfo[]> {
+  const records = await store.list();
+  return records.map(({ candles, intervalMs: _, ...info }) => ({ ...info, candles: candles.length }));
+}
@@ -0,0 +1,202 @@
+import type { Candle } from './types';
+
+/**
+ * CSV / JSON candle import
+ * Supported layouts:
+ * - CSV with a header row (comma, semicolon or tab separated), or without one (t,o,h,l,c[,v])
+ * - JSON array of objects, mapped by key
+ * - JSON array of arrays, [t, o, h, l, c, v] (exchange kline style), mapped by index
+ */
+
+export type CandleField = 'timestamp' | 'open' | 'high' | 'low' | 'close' | 'volume';
+
+// Column name (or index, as a string) for each field; volume is optional
+export type ColumnMapping = Record<Exclude<CandleField, 'volume'>, string> & { volume?: string };
+
+export interface ImportOptions {
+  mapping?: Partial<ColumnMapping>;
+  utcOffsetMinutes?: number; // For date strings without a zone, e.g. 120 for UTC+2. Defaults to UTC
+}
+
+interface Table {
+  columns: string[];
+  rows: Record<string, unknown>[];
+}
+
+const POSITIONAL: ColumnMapping = {
+  timestamp: '0',
+  open: '1',
+  high: '2',
+  low: '3',
+  close: '4',
+  volume: '5',
+};
+
+const ALIASES: Record<CandleField, string[]> = {
+  timestamp: ['timestamp', 'time', 'date', 'datetime', 'open_time', 'opentime', 'unix', 't'],
+  open: ['open', 'o'],
+  high: ['high', 'h'],
+  low: ['low', 'l'],
+  close: ['close', 'c', 'price'],
+  volume: ['volume', 'vol', 'v', 'volume_usd', 'quote_volume'],
+};
+
+/**
+ * Column names found in the file, for the mapping UI
+ */
+export function readColumns(text: string, fileName: string): string[] {
+  return toTable(text, fileName).columns;
+}
+
+/**
+ * Best-effort mapping from common column names
+ */
+export function detectMapping(columns: string[]): Partial<ColumnMapping> {
+  if (columns.every((c, i) => c === String(i))) return { ...POSITIONAL };
+
+  const mapping: Partial<ColumnMapping> = {};
+  for (const field of Object.keys(ALIASES) as CandleField[]) {
+    const match = columns.find((c) => ALIASES[field].includes(c.trim().toLowerCase()));
+    if (match !== undefined) mapping[field] = match;
+  }
+  return mapping;
+}
+
+/**
+ * Parse a file into candles, in file order (validation is separate)
+ */
+export function parseCandleFile(text: string, fileName: string, options: ImportOptions = {}): Candle[] {
+  const table = toTable(text, fileName);
+  const mapping = { ...detectMapping(table.columns), ...options.mapping };
+
+  for (const field of ['timestamp', 'open', 'high', 'low', 'close'] as const) {
+    const column = mapping[field];
+    if (column === undefined || !table.columns.includes(column)) {
+      throw new Error(`No column mapped to ${field}`);
+    }
+  }
+
+  const m = mapping as ColumnMapping;
+  const offset = options.utcOffsetMinutes ?? 0;
+
+  return table.rows.map((row, i) => {
+    const timestamp = parseTimestamp(row[m.timestamp], offset);
+    if (Number.isNaN(timestamp)) {
+      throw new Error(`Row ${i + 1}: cannot read timestamp "${String(row[m.timestamp])}"`);
+    }
+
+    return {
+      timestamp,
+      open: Number(row[m.open]),
+      high: Number(row[m.high]),
+      low: Number(row[m.low]),
+      close: Number(row[m.close]),
+      volume: m.volume !== undefined ? Number(row[m.volume] ?? 0) : 0,
+    };
+  });
+}
+
+/**
+ * Epoch seconds or milliseconds, or a date string. Strings without a zone
+ * designator are read as local time at `utcOffsetMinutes` from UTC.
+ */
+export function parseTimestamp(value: unknown, utcOffsetMinutes: number): number {
+  const raw = typeof value === 'string' ? value.trim() : value;
+
+  if (typeof raw === 'number' || (typeof raw === 'string' && /^\d+(\.\d+)?$/.test(raw))) {
+    const n = Number(raw);
+    return n < 1e12 ? n * 1000 : n; // Seconds until year 33658
+  }
+
+  if (typeof raw !== 'string' || raw === '') return NaN;
+
+  const hasZone = /(Z|[+-]\d{2}:?\d{2})$/i.test(raw);
+  const iso = raw.includes('T') ? raw : raw.replace(' ', 'T');
+  const parsed = Date.parse(hasZone ? iso : `${iso}${/T/.test(iso) ? '' : 'T00:00'}Z`);
+
+  return hasZone ? parsed : parsed - utcOffsetMinutes * 60 * 1000;
+}
+
+function toTable(text: string, fileName: string): Table {
+  const trimmed = text.trim();
+  if (trimmed === '') throw new Error('File is empty');
+
+  if (fileName.toLowerCase().endsWith('.json') || trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    return jsonTable(trimmed);
+  }
+  return csvTable(trimmed);
+}
+
+function jsonTable(text: string): Table {
+  let data: unknown = JSON.parse(text);
+
+  // Accept { candles: [...] } / { data: [...] } wrappers
+  if (data && !Array.isArray(data) && typeof data === 'object') {
+    const inner = Object.values(data).find(Array.isArray);
+    data = inner ?? [];
+  }
+  if (!Array.isArray(data) || data.length === 0) throw new Error('JSON has no candle rows');
+
+  if (Array.isArray(data[0])) {
+    const width = (data[0] as unknown[]).length;
+    return {
+      columns: Array.from({ length: width }, (_, i) => String(i)),
+      rows: (data as unknown[][]).map((row) => Object.fromEntries(row.map((v, i) => [String(i), v]))),
+    };
+  }
+
+  const rows = data as Record<string, unknown>[];
+  return { columns: Object.keys(rows[0] ?? {}), rows };
+}
+
+function csvTable(text: string): Table {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== '');
+  const header = lines[0] ?? '';
+  const delimiter = [',', ';', '\t'].reduce((best, d) =>
+    splitCsvLine(header, d).length > splitCsvLine(header, best).length ? d : best
+  );
+
+  const first = splitCsvLine(header, delimiter);
+  const hasHeader = first.some((cell) => cell !== '' && Number.isNaN(Number(cell)) && Number.isNaN(Date.parse(cell)));
+
+  const columns = hasHeader ? first.map((c) => c.trim()) : first.map((_, i) => String(i));
+  const body = hasHeader ? lines.slice(1) : lines;
+
+  return {
+    columns,
+    rows: body.map((line) => {
+      const cells = splitCsvLine(line, delimiter);
+      return Object.fromEntries(columns.map((c, i) => [c, cells[i]]));
+    }),
+  };
+}
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell);
+
+  return cells;
+}
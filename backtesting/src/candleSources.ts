@@ -0,0 +1,107 @@
+import type { Candle, CandleSource, CandleSeries } from './types';
+import { fetchHistoricalData, generateMockData } from './historicalData';
+import { parseCandleFile, type ImportOptions } from './candleImport';
+import { validateCandles, describeErrors } from './candleValidation';
+
+/**
+ * Candle sources
+ * A source either returns candles or throws; callers pick another source explicitly,
+ * nothing falls back to synthetic data on its own.
+ */
+
+/**
+ * CoinGecko prices bucketed into `intervalMs` candles (default 1h)
+ */
+export function createCoinGeckoSource(intervalMs?: number): CandleSource {
+  return {
+    kind: 'COINGECKO',
+    label: 'CoinGecko',
+    load: (symbol, start, end) => fetchHistoricalData(symbol, start, end, intervalMs),
+  };
+}
+
+/**
+ * Bundled fixtures under static/fixtures, served with the app so they work offline.
+ * Fixtures cover a fixed period; a range outside it is an error.
+ */
+export const FIXTURES: Record<string, { file: string; description: string }> = {
+  'BTC/USDC': { file: '/fixtures/btc-usdc-1h.csv', description: 'Jan 2024, 1h, synthetic sample' },
+  'ETH/USDC': { file: '/fixtures/eth-usdc-1h.csv', description: 'Jan 2024, 1h, synthetic sample' },
+};
+
+export function createFixtureSource(fetchFn: typeof fetch = fetch): CandleSource {
+  return {
+    kind: 'FIXTURE',
+    label: 'Bundled fixture (synthetic sample)',
+    load: async (symbol, start, end) => {
+      const fixture = FIXTURES[symbol];
+      if (!fixture) throw new Error(`No bundled fixture for ${symbol}`);
+
+      const response = await fetchFn(fixture.file);
+      if (!response.ok) throw new Error(`Fixture ${fixture.file}: ${response.status}`);
+
+      const candles = parseCandleFile(await response.text(), fixture.file);
+      const inRange = candles.filter(
+        (c) => c.timestamp >= start.getTime() && c.timestamp <= end.getTime()
+      );
+
+      if (inRange.length === 0) {
+        const first = new Date(candles[0]?.timestamp ?? 0).toISOString().slice(0, 10);
+        const last = new Date(candles[candles.length - 1]?.timestamp ?? 0).toISOString().slice(0, 10);
+        throw new Error(`The ${symbol} fixture covers ${first} to ${last}, not the requested range`);
+      }
+      return inRange;
+    },
+  };
+}
+
+/**
+ * A user-imported file. It holds one series, whatever symbol is asked for.
+ */
+export function createFileSource(fileName: string, text: string, options: ImportOptions = {}): CandleSource {
+  return {
+    kind: 'FILE',
+    label: fileName,
+    load: async () => parseCandleFile(text, fileName, options),
+  };
+}
+
+/**
+ * Seeded random walk, for when synthetic data is what you want
+ */
+export function createSyntheticSource(seed = 1): CandleSource {
+  return {
+    kind: 'SYNTHETIC',
+    label: `Synthetic random walk (seed ${seed})`,
+    load: async (symbol, start, end) =>
+      generateMockData(start, end, symbol.startsWith('BTC') ? 100000 : 4000, seed),
+  };
+}
+
+/**
+ * Load and validate a series. Order, duplicate and OHLC errors are fatal; gaps are reported.
+ */
+export async function loadCandleSeries(
+  source: CandleSource,
+  symbol: string,
+  start: Date,
+  end: Date
+): Promise<CandleSeries> {
+  const candles: Candle[] = await source.load(symbol, start, end);
+
+  if (candles.length === 0) {
+    throw new Error(`${source.label}: no candles for ${symbol}`);
+  }
+
+  const validation = validateCandles(candles);
+  if (validation.errors.length > 0) {
+    throw new Error(`${source.label}: invalid candles, ${describeErrors(validation.errors)}`);
+  }
+
+  return {
+    symbol,
+    source: { kind: source.kind, label: source.label },
+    candles,
+    validation,
+  };
+}
@@ -0,0 +1,80 @@
+import type { Candle, CandleIssue, CandleGap, CandleValidation } from './types';
+
+/**
+ * Candle series validation
+ * Errors make a series unusable; gaps are only reported.
+ */
+
+const MAX_REPORTED_ERRORS = 50;
+
+export function validateCandles(candles: Candle[]): CandleValidation {
+  const errors: CandleIssue[] = [];
+  const report = (index: number, message: string) => {
+    if (errors.length < MAX_REPORTED_ERRORS) errors.push({ index, message });
+  };
+
+  candles.forEach((c, i) => {
+    const values = [c.timestamp, c.open, c.high, c.low, c.close, c.volume];
+    if (!values.every(Number.isFinite)) {
+      report(i, 'non-numeric value');
+      return;
+    }
+
+    if (c.high < Math.max(c.open, c.close)) report(i, 'high below open/close');
+    if (c.low > Math.min(c.open, c.close)) report(i, 'low above open/close');
+    if (c.low <= 0) report(i, 'non-positive price');
+    if (c.volume < 0) report(i, 'negative volume');
+
+    if (i > 0) {
+      const prev = candles[i - 1]!.timestamp;
+      if (c.timestamp === prev) report(i, 'duplicate timestamp');
+      else if (c.timestamp < prev) report(i, 'timestamp out of order');
+    }
+  });
+
+  const intervalMs = medianInterval(candles);
+  const gaps: CandleGap[] = [];
+
+  if (intervalMs > 0) {
+    for (let i = 1; i < candles.length; i++) {
+      const from = candles[i - 1]!.timestamp;
+      const to = candles[i]!.timestamp;
+      const delta = to - from;
+      if (delta > intervalMs * 1.5) {
+        gaps.push({
+          from,
+          to,
+          missing: Math.round(delta / intervalMs) - 1,
+        });
+      }
+    }
+  }
+
+  return { intervalMs, errors, gaps };
+}
+
+/**
+ * Median spacing between consecutive candles, 0 for fewer than two
+ */
+export function medianInterval(candles: Candle[]): number {
+  const deltas: number[] = [];
+  for (let i = 1; i < candles.length; i++) {
+    const delta = candles[i]!.timestamp - candles[i - 1]!.timestamp;
+    if (delta > 0) deltas.push(delta);
+  }
+  if (deltas.length === 0) return 0;
+
+  deltas.sort((a, b) => a - b);
+  return deltas[Math.floor(deltas.length / 2)]!;
+}
+
+/**
+ * One-line summary of the first few errors, for error messages
+ */
+export function describeErrors(errors: CandleIssue[], limit = 3): string {
+  const shown = errors
+    .slice(0, limit)
+    .map((e) => `#${e.index + 1}: ${e.message}`)
+    .join('; ');
+  return errors.length > limit ? `${shown} (+${errors.length - limit} more)` : shown;
+}
@@ -0,0 +1,23 @@
+import type { CapitalAccount } from './types';
+
+/**
+ * Capital accounts for the backtesters
+ */
+
+/**
+ * A private cash balance, the default for a single backtest
+ */
+export function createCashAccount(initialCapital: number): CapitalAccount {
+  let cash = initialCapital;
+
+  return {
+    available: () => cash,
+    balance: () => cash,
+    withdraw: (amount) => {
+      cash -= amount;
+    },
+    deposit: (amount) => {
+      cash += amount;
+    },
+  };
+}
@@ -0,0 +1,50 @@
+import type { CostModel, CostBreakdown, RoundResult } from './types';
+
+/**
+ * Execution cost model
+ * - gas: fixed quote amount per fill, so it weighs more on small orders
+ * - exchange fee: maker bps for resting orders (DCA, take-profit), taker bps for market orders
+ * - slippage: square-root impact of the order notional against the candle's quote volume;
+ *   none on candles without volume (CoinGecko ranges, files without a volume column)
+ */
+
+export function emptyCosts(): CostBreakdown {
+  return { keeperFees: 0, exchangeFees: 0, gas: 0, slippage: 0, total: 0 };
+}
+
+export function addCosts(a: CostBreakdown, b: Partial<CostBreakdown>): CostBreakdown {
+  const keeperFees = a.keeperFees + (b.keeperFees ?? 0);
+  const exchangeFees = a.exchangeFees + (b.exchangeFees ?? 0);
+  const gas = a.gas + (b.gas ?? 0);
+  const slippage = a.slippage + (b.slippage ?? 0);
+
+  return { keeperFees, exchangeFees, gas, slippage, total: keeperFees + exchangeFees + gas + slippage };
+}
+
+/**
+ * Slippage in bps for an order of `notional` quote units in a candle with `volume` quote units traded.
+ * Volume 0 (or not finite) means the source doesn't report it: no volume-based slippage then.
+ */
+export function slippageBps(model: CostModel, notional: number, volume: number): number {
+  if (model.slippageBps <= 0 || notional <= 0 || !(volume > 0 && Number.isFinite(volume))) return 0;
+  const participation = Math.min(1, notional / volume);
+  return model.slippageBps * Math.sqrt(participation);
+}
+
+export function exchangeFeeBps(model: CostModel, taker: boolean): number {
+  return taker ? model.takerFeeBps : model.makerFeeBps;
+}
+
+/**
+ * Base order size at which the run breaks even, assuming every order scales with it
+ * while gas stays fixed per fill. Null when the strategy loses even without gas.
+ */
+export function breakEvenBaseOrderSize(rounds: RoundResult[], baseOrderSize: number): number | null {
+  const gas = rounds.reduce((sum, r) => sum + r.costs.gas, 0);
+  const pnlBeforeGas = rounds.reduce((sum, r) => sum + r.realizedPnL + r.costs.gas, 0);
+
+  if (gas === 0) return 0;
+  if (pnlBeforeGas <= 0) return null;
+
+  return baseOrderSize * (gas / pnlBeforeGas);
+}
@@ -0,0 +1,134 @@
+import type { Candle, DcaConfig, EntryConditions, EntryFilter, ExitReason } from './types';
+import {
+  createSma,
+  createEma,
+  createRsi,
+  createBollinger,
+  type Indicator,
+  type IndicatorState,
+} from './indicators';
+
+/**
+ * Entry gate
+ * Keeps the indicators behind DcaConfig.entryConditions up to date candle by candle
+ * and decides whether a new round may start at the current close.
+ */
+
+export interface EntryGate {
+  update(candle: Candle): void; // Call once per candle, before evaluate()
+  evaluate(): { allowed: boolean; failed: number[] }; // Indexes into conditions.filters
+  roundClosed(reason: ExitReason): void;
+  save(): EntryGateState;
+  load(state: EntryGateState): void;
+}
+
+/**
+ * JSON-safe gate state, one indicator entry per filter (null for COOLDOWN)
+ */
+export interface EntryGateState {
+  candlesSinceTakeProfit: number | null; // null = no take-profit yet
+  passed: boolean[];
+  indicators: (IndicatorState | null)[];
+}
+
+type FilterStage = {
+  indicator: Indicator<unknown> | null;
+  check: (candle: Candle) => boolean;
+};
+
+export function createEntryGate(conditions: EntryConditions | undefined, side: DcaConfig['side']): EntryGate {
+  const filters = conditions?.filters ?? [];
+  const isBuy = side === 'BUY';
+  let candlesSinceTakeProfit = Infinity;
+
+  const stages: FilterStage[] = filters.map((filter) => {
+    switch (filter.kind) {
+      case 'RSI': {
+        const rsi = createRsi(filter.period);
+        return {
+          indicator: rsi,
+          check: (candle) => {
+            const value = rsi.update(candle.close);
+            if (value === null) return false;
+            return isBuy ? value <= filter.threshold : value >= 100 - filter.threshold;
+          },
+        };
+      }
+      case 'MOVING_AVERAGE': {
+        const average = filter.average === 'EMA' ? createEma(filter.period) : createSma(filter.period);
+        return {
+          indicator: average,
+          check: (candle) => {
+            const value = average.update(candle.close);
+            if (value === null) return false;
+            return isBuy ? candle.close < value : candle.close > value;
+          },
+        };
+      }
+      case 'BOLLINGER': {
+        const bands = createBollinger(filter.period, filter.stdDevs);
+        return {
+          indicator: bands,
+          check: (candle) => {
+            const value = bands.update(candle.close);
+            if (value === null) return false;
+            return isBuy ? candle.low <= value.lower : candle.high >= value.upper;
+          },
+        };
+      }
+      case 'COOLDOWN':
+        return { indicator: null, check: () => candlesSinceTakeProfit > filter.candles };
+    }
+  });
+
+  // Indicators must see every candle, so results are computed in update()
+  let passed: boolean[] = filters.map(() => false);
+
+  return {
+    update: (candle) => {
+      candlesSinceTakeProfit++;
+      passed = stages.map((stage) => stage.check(candle));
+    },
+    evaluate: () => {
+      if (filters.length === 0) return { allowed: true, failed: [] };
+
+      const failed = passed.flatMap((ok, i) => (ok ? [] : [i]));
+      const allowed = conditions?.combine === 'OR' ? failed.length < filters.length : failed.length === 0;
+      return { allowed, failed: allowed ? [] : failed };
+    },
+    roundClosed: (reason) => {
+      if (reason === 'TAKE_PROFIT' || reason === 'TRAILING') candlesSinceTakeProfit = 0;
+    },
+    save: () => ({
+      candlesSinceTakeProfit: Number.isFinite(candlesSinceTakeProfit) ? candlesSinceTakeProfit : null,
+      passed: [...passed],
+      indicators: stages.map((stage) => stage.indicator?.save() ?? null),
+    }),
+    load: (state) => {
+      if (state.indicators.length !== stages.length) {
+        throw new Error(`Saved entry gate has ${state.indicators.length} filters, the config has ${stages.length}`);
+      }
+      candlesSinceTakeProfit = state.candlesSinceTakeProfit ?? Infinity;
+      passed = [...state.passed];
+      stages.forEach((stage, i) => {
+        const saved = state.indicators[i];
+        if (stage.indicator && saved) stage.indicator.load(saved);
+      });
+    },
+  };
+}
+
+export function describeEntryFilter(filter: EntryFilter, side: DcaConfig['side'] = 'BUY'): string {
+  const isBuy = side === 'BUY';
+
+  switch (filter.kind) {
+    case 'RSI':
+      return isBuy ? `RSI(${filter.period}) ≤ ${filter.threshold}` : `RSI(${filter.period}) ≥ ${100 - filter.threshold}`;
+    case 'MOVING_AVERAGE':
+      return `CLOSE ${isBuy ? '<' : '>'} ${filter.average}(${filter.period})`;
+    case 'BOLLINGER':
+      return `${isBuy ? 'LOWER' : 'UPPER'} BB(${filter.period}, ${filter.stdDevs}σ) TOUCH`;
+    case 'COOLDOWN':
+      return `COOLDOWN ${filter.candles} CANDLES`;
+  }
+}
@@ -0,0 +1,228 @@
+import {
+  parseAbi,
+  type Address,
+  type Client,
+  type StateOverride,
+} from 'viem';
+import { readContract, simulateBlocks } from 'viem/actions';
+import { parseContractError } from './contractErrors';
+
+/**
+ * Dry runs of Escrow.buy() / sell()
+ * One eth_simulateV1 block: read the escrow, approve the input if the allowance
+ * is short, call buy() or sell(), read the escrow again. Nothing is signed or
+ * sent, and the diff is exactly what the call would do in the next block.
+ * Needs an RPC that serves eth_simulateV1 (geth, reth, anvil); for one that
+ * doesn't, point at `anvil --fork-url <rpc>` instead.
+ */
+
+const SIMULATION_ABI = parseAbi([
+  'struct SellOrder { uint128 amount; uint128 filled; uint128 price; }',
+  'function asset0() external view returns (address)',
+  'function asset1() external view returns (address)',
+  'function getSellOrders() external view returns (SellOrder[])',
+  'function lastExecuteOrder() external view returns (uint256)',
+  'function getTotalSoldAsset0() external view returns (uint256)',
+  'function getAverageSellPrice() external view returns (uint256)',
+  'function buy(uint256 amount1In, uint256 minAmount0Out, uint256 deadline) external',
+  'function sell(uint256 amount0In, uint256 minAmount1Out, uint256 deadline) external',
+  'function balanceOf(address account) external view returns (uint256)',
+  'function allowance(address owner, address spender) external view returns (uint256)',
+  'function approve(address spender, uint256 amount) external returns (bool)',
+  // Custom errors a buy()/sell() can bubble up: solady's guard, OpenZeppelin tokens
+  'error Reentrancy()',
+  'error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)',
+  'error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)',
+]);
+
+export type EscrowAction =
+  | { kind: 'BUY'; amount1In: bigint; minAmount0Out: bigint; deadline: bigint }
+  | { kind: 'SELL'; amount0In: bigint; minAmount1Out: bigint; deadline: bigint };
+
+export interface SimulatedSellOrder {
+  amount: bigint;
+  filled: bigint;
+  price: bigint; // 1e8
+}
+
+export interface EscrowSnapshot {
+  sellOrders: SimulatedSellOrder[];
+  lastExecuteOrder: bigint;
+  totalSoldAsset0: bigint;
+  averageSellPrice: bigint; // 1e8, 0 when nothing sold
+  escrowBalance0: bigint;
+  escrowBalance1: bigint;
+  accountBalance0: bigint;
+  accountBalance1: bigint;
+}
+
+/**
+ * A ladder rung that differs after the call; null where the rung doesn't exist
+ */
+export interface OrderChange {
+  index: number;
+  before: SimulatedSellOrder | null;
+  after: SimulatedSellOrder | null;
+}
+
+export interface EscrowSimulation {
+  action: EscrowAction;
+  ok: boolean;
+  revertReason?: string; // Set when !ok
+  error?: Error; // The viem error behind revertReason
+  blockNumber: bigint; // Of the simulated block
+  timestamp: bigint;
+  needsApproval: boolean; // The allowance didn't cover the input; the simulation approved it first
+  approvalGasUsed: bigint;
+  gasUsed: bigint; // buy() / sell() alone
+  amountIn: bigint; // Kept by the escrow, refund excluded
+  amountOut: bigint;
+  refund: bigint;
+  cursor: { before: bigint; after: bigint };
+  reset: boolean; // sell() regenerated the ladder from the oracle
+  orderChanges: OrderChange[];
+  before: EscrowSnapshot;
+  after: EscrowSnapshot;
+}
+
+export interface SimulationRequest {
+  escrow: Address;
+  account: Address; // msg.sender
+  action: EscrowAction;
+  approve?: boolean; // Approve a short allowance inside the simulation (default true)
+  stateOverrides?: StateOverride;
+}
+
+interface SimulatedCall {
+  status: 'success' | 'failure';
+  result?: unknown;
+  error?: Error;
+  gasUsed: bigint;
+}
+
+const SNAPSHOT_READS = 8;
+
+export async function simulateEscrowAction(client: Client, request: SimulationRequest): Promise<EscrowSimulation> {
+  const { escrow, account, action } = request;
+  const read = <F extends 'asset0' | 'asset1'>(functionName: F) =>
+    readContract(client, { address: escrow, abi: SIMULATION_ABI, functionName });
+  const [asset0, asset1] = await Promise.all([read('asset0'), read('asset1')]);
+
+  const tokenIn = action.kind === 'BUY' ? asset1 : asset0;
+  const amountRequested = action.kind === 'BUY' ? action.amount1In : action.amount0In;
+  const allowance = await readContract(client, {
+    address: tokenIn,
+    abi: SIMULATION_ABI,
+    functionName: 'allowance',
+    args: [account, escrow],
+  });
+  const needsApproval = allowance < amountRequested;
+
+  const reads = [
+    { to: escrow, functionName: 'getSellOrders' },
+    { to: escrow, functionName: 'lastExecuteOrder' },
+    { to: escrow, functionName: 'getTotalSoldAsset0' },
+    { to: escrow, functionName: 'getAverageSellPrice' },
+    { to: asset0, functionName: 'balanceOf', args: [escrow] },
+    { to: asset1, functionName: 'balanceOf', args: [escrow] },
+    { to: asset0, functionName: 'balanceOf', args: [account] },
+    { to: asset1, functionName: 'balanceOf', args: [account] },
+  ] as const;
+  const approval = needsApproval && request.approve !== false
+    ? [{ to: tokenIn, functionName: 'approve', args: [escrow, amountRequested] } as const]
+    : [];
+  const call =
+    action.kind === 'BUY'
+      ? ({ to: escrow, functionName: 'buy', args: [action.amount1In, action.minAmount0Out, action.deadline] } as const)
+      : ({ to: escrow, functionName: 'sell', args: [action.amount0In, action.minAmount1Out, action.deadline] } as const);
+
+  const [block] = await simulateBlocks(client, {
+    blocks: [
+      {
+        stateOverrides: request.stateOverrides,
+        calls: [...reads, ...approval, call, ...reads].map((c) => ({ ...c, abi: SIMULATION_ABI, account })),
+      },
+    ],
+  });
+  if (!block) throw new Error('eth_simulateV1 returned no block');
+
+  const calls = block.calls as readonly SimulatedCall[];
+  const before = toSnapshot(calls.slice(0, SNAPSHOT_READS));
+  const approvalCall = approval.length > 0 ? calls[SNAPSHOT_READS] : undefined;
+  const actionCall = calls[SNAPSHOT_READS + approval.length]!;
+  const after = toSnapshot(calls.slice(SNAPSHOT_READS + approval.length + 1));
+
+  const [spent, received] =
+    action.kind === 'BUY'
+      ? [before.accountBalance1 - after.accountBalance1, after.accountBalance0 - before.accountBalance0]
+      : [before.accountBalance0 - after.accountBalance0, after.accountBalance1 - before.accountBalance1];
+  const orderChanges = diffOrders(before.sellOrders, after.sellOrders);
+
+  return {
+    action,
+    ok: actionCall.status === 'success',
+    ...(actionCall.status === 'failure' && {
+      revertReason: parseContractError(actionCall.error),
+      error: actionCall.error,
+    }),
+    blockNumber: block.number ?? 0n,
+    timestamp: block.timestamp,
+    needsApproval,
+    approvalGasUsed: approvalCall?.gasUsed ?? 0n,
+    gasUsed: actionCall.gasUsed,
+    amountIn: spent,
+    amountOut: received,
+    refund: actionCall.status === 'success' ? amountRequested - spent : 0n,
+    cursor: { before: before.lastExecuteOrder, after: after.lastExecuteOrder },
+    // buy() only ever adds to filled; a reset rewrites prices and zeroes fills
+    reset: orderChanges.some(
+      ({ before: b, after: a }) => !b || !a || a.price !== b.price || a.filled < b.filled
+    ),
+    orderChanges,
+    before,
+    after,
+  };
+}
+
+function toSnapshot(calls: readonly SimulatedCall[]): EscrowSnapshot {
+  const failed = calls.find((c) => c.status === 'failure');
+  if (failed) throw new Error(`escrow read failed in simulation: ${parseContractError(failed.error)}`);
+
+  const [orders, cursor, sold, average, escrow0, escrow1, account0, account1] = calls.map((c) => c.result);
+  return {
+    sellOrders: (orders as readonly SimulatedSellOrder[]).map(({ amount, filled, price }) => ({ amount, filled, price })),
+    lastExecuteOrder: cursor as bigint,
+    totalSoldAsset0: sold as bigint,
+    averageSellPrice: average as bigint,
+    escrowBalance0: escrow0 as bigint,
+    escrowBalance1: escrow1 as bigint,
+    accountBalance0: account0 as bigint,
+    accountBalance1: account1 as bigint,
+  };
+}
+
+function diffOrders(before: SimulatedSellOrder[], after: SimulatedSellOrder[]): OrderChange[] {
+  const changes: OrderChange[] = [];
+  for (let index = 0; index < Math.max(before.length, after.length); index++) {
+    const b = before[index] ?? null;
+    const a = after[index] ?? null;
+    if (b && a && b.amount === a.amount && b.filled === a.filled && b.price === a.price) continue;
+    changes.push({ index, before: b, after: a });
+  }
+  return changes;
+}
+
+/**
+ * One line for logs, e.g. "fills rungs #1, #2, cursor 0→2, gas 91234 (+46012 approve)"
+ */
+export function summarizeSimulation(sim: EscrowSimulation): string {
+  if (!sim.ok) return `reverts: ${sim.revertReason}`;
+  const rungs = sim.orderChanges.map((change) => `#${change.index + 1}`);
+  const ladder = sim.reset
+    ? `resets the ladder to ${sim.after.sellOrders.length} rungs`
+    : rungs.length > 0
+      ? `fills rungs ${rungs.join(', ')}`
+      : 'fills nothing';
+  const approval = sim.needsApproval ? ` (+${sim.approvalGasUsed} approve)` : '';
+  return `${ladder}, cursor ${sim.cursor.before}→${sim.cursor.after}, gas ${sim.gasUsed}${approval}`;
+}
@@ -1,10 +1,26 @@
 import type { Candle } from './types';
+import { createRng } from './random';
+import { aggregateCandles, formatInterval } from './resample';
+import { medianInterval } from './candleValidation';
 
 /**
  * Fetch historical price data from CoinGecko API
  * For MVP, we use CoinGecko's free API (no key required)
+ * CoinGecko picks the granularity from the range (5-minutely for the last day,
+ * hourly up to 90 days, daily beyond); candles are built at `intervalMs` and a
+ * range whose prices come coarser than that is refused.
  */
 
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * The finest candle interval CoinGecko's range query supports for a historical range
+ */
+export function coinGeckoNativeInterval(startDate: Date, endDate: Date): number {
+  return endDate.getTime() - startDate.getTime() > 90 * DAY_MS ? DAY_MS : HOUR_MS;
+}
+
 const COINGECKO_BASE = 'https://api.coingecko.com/api/v3';
 
 const SYMBOL_MAP: Record<string, string> = {
@@ -17,7 +33,8 @@ const SYMBOL_MAP: Record<string, string> = {
 export async function fetchHistoricalData(
   symbol: string,
   startDate: Date,
-  endDate: Date
+  endDate: Date,
+  intervalMs: number = HOUR_MS
 ): Promise<Candle[]> {
   const coinId = SYMBOL_MAP[symbol];
   if (!coinId) {
@@ -36,14 +53,11 @@ export async function fetchHistoricalData(
       throw new Error(`CoinGecko API error: ${response.status}`);
     }
 
-    const data = await response.json();
+    const data = (await response.json()) as { prices: [number, number][] };
 
     // CoinGecko returns: { prices: [[timestamp, price], ...] }
     // We need to convert to OHLC candles
-    // For simplicity, we'll create hourly candles from the price data
-    const candles = convertToCandles(data.prices);
-
-    return candles;
+    return convertToCandles(data.prices, intervalMs);
   } catch (error) {
     console.error('Failed to fetch historical data:', error);
     throw error;
@@ -52,66 +66,42 @@ export async function fetchHistoricalData(
 
 /**
  * Convert CoinGecko price data to OHLC candles
- * Groups prices into hourly buckets
+ * Each price point is a tick; ticks are aggregated into `intervalMs` buckets
  */
-function convertToCandles(prices: [number, number][]): Candle[] {
-  if (prices.length === 0) return [];
-
-  const HOUR_MS = 60 * 60 * 1000;
-  const candles: Candle[] = [];
-
-  let currentHour = Math.floor(prices[0][0] / HOUR_MS) * HOUR_MS;
-  let hourPrices: number[] = [];
-
-  for (const [timestamp, price] of prices) {
-    const hour = Math.floor(timestamp / HOUR_MS) * HOUR_MS;
-
-    if (hour !== currentHour) {
-      // Complete the current candle
-      if (hourPrices.length > 0) {
-        candles.push({
-          timestamp: currentHour,
-          open: hourPrices[0],
-          high: Math.max(...hourPrices),
-          low: Math.min(...hourPrices),
-          close: hourPrices[hourPrices.length - 1],
-          volume: 0, // CoinGecko free API doesn't provide volume in range query
-        });
-      }
-
-      // Start new candle
-      currentHour = hour;
-      hourPrices = [price];
-    } else {
-      hourPrices.push(price);
-    }
-  }
-
-  // Add final candle
-  if (hourPrices.length > 0) {
-    candles.push({
-      timestamp: currentHour,
-      open: hourPrices[0],
-      high: Math.max(...hourPrices),
-      low: Math.min(...hourPrices),
-      close: hourPrices[hourPrices.length - 1],
-      volume: 0,
-    });
+function convertToCandles(prices: [number, number][], intervalMs: number): Candle[] {
+  const ticks: Candle[] = prices.map(([timestamp, price]) => ({
+    timestamp,
+    open: price,
+    high: price,
+    low: price,
+    close: price,
+    volume: 0, // CoinGecko free API doesn't provide volume in range query
+  }));
+
+  // Ticks further apart than a bucket would leave most buckets empty
+  const tickInterval = medianInterval(ticks);
+  if (tickInterval > intervalMs * 1.5) {
+    throw new Error(
+      `CoinGecko returns ${formatInterval(tickInterval)} prices for this range, too coarse for ${formatInterval(intervalMs)} candles`
+    );
   }
 
-  return candles;
+  return aggregateCandles(ticks, intervalMs);
 }
 
 /**
- * Mock historical data for testing (fallback if API fails)
+ * Mock historical data for testing and the synthetic candle source
+ * Seeded, so the same range and seed always produce the same candles
  */
 export function generateMockData(
   startDate: Date,
   endDate: Date,
-  basePrice: number = 100000
+  basePrice: number = 100000,
+  seed: number = 1
 ): Candle[] {
   const candles: Candle[] = [];
   const HOUR_MS = 60 * 60 * 1000;
+  const random = createRng(seed);
 
   let currentTime = startDate.getTime();
   let price = basePrice;
@@ -119,13 +109,13 @@ export function generateMockData(
   while (currentTime <= endDate.getTime()) {
     // Random walk with volatility
     const volatility = 0.02; // 2% per hour max
-    const change = (Math.random() - 0.5) * 2 * volatility;
+    const change = (random() - 0.5) * 2 * volatility;
     price = price * (1 + change);
 
     const open = price;
-    const close = price * (1 + (Math.random() - 0.5) * 0.01);
-    const high = Math.max(open, close) * (1 + Math.random() * 0.005);
-    const low = Math.min(open, close) * (1 - Math.random() * 0.005);
+    const close = price * (1 + (random() - 0.5) * 0.01);
+    const high = Math.max(open, close) * (1 + random() * 0.005);
+    const low = Math.min(open, close) * (1 - random() * 0.005);
 
     candles.push({
       timestamp: currentTime,
@@ -133,7 +123,7 @@ export function generateMockData(
       high,
       low,
       close,
-      volume: Math.random() * 1000000,
+      volume: random() * 1000000,
     });
 
     currentTime += HOUR_MS;
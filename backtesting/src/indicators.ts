@@ -0,0 +1,171 @@
+import type { Candle } from './types';
+
+/**
+ * Streaming indicators
+ * Each indicator takes one value per update and returns its current reading,
+ * or null until it has seen enough values. State is O(period) and can be
+ * saved and loaded to pause a stream.
+ */
+
+export interface Indicator<T> {
+  update(value: number): T | null;
+  save(): IndicatorState; // JSON-safe
+  load(state: IndicatorState): void;
+}
+
+export type IndicatorState = { [key: string]: number | number[] | null | IndicatorState };
+
+export interface BollingerBands {
+  middle: number;
+  upper: number;
+  lower: number;
+}
+
+/**
+ * Simple moving average over a rolling window
+ */
+export function createSma(period: number): Indicator<number> {
+  const window = createWindow(period);
+
+  return {
+    update: (value) => {
+      window.push(value);
+      return window.full ? window.sum / period : null;
+    },
+    save: () => window.save(),
+    load: (state) => window.load(state),
+  };
+}
+
+/**
+ * Exponential moving average, seeded with the SMA of the first `period` values
+ */
+export function createEma(period: number): Indicator<number> {
+  const alpha = 2 / (period + 1);
+  const seed = createSma(period);
+  let ema: number | null = null;
+
+  return {
+    update: (value) => {
+      if (ema === null) {
+        ema = seed.update(value);
+      } else {
+        ema += alpha * (value - ema);
+      }
+      return ema;
+    },
+    save: () => ({ ema, seed: seed.save() }),
+    load: (state) => {
+      ema = state.ema as number | null;
+      seed.load(state.seed as IndicatorState);
+    },
+  };
+}
+
+/**
+ * Relative strength index with Wilder smoothing
+ */
+export function createRsi(period: number): Indicator<number> {
+  let previous: number | null = null;
+  let avgGain = 0;
+  let avgLoss = 0;
+  let changes = 0;
+
+  return {
+    update: (value) => {
+      if (previous === null) {
+        previous = value;
+        return null;
+      }
+
+      const change = value - previous;
+      previous = value;
+      const gain = Math.max(change, 0);
+      const loss = Math.max(-change, 0);
+      changes++;
+
+      if (changes <= period) {
+        // Plain average over the first period
+        avgGain += gain / period;
+        avgLoss += loss / period;
+        if (changes < period) return null;
+      } else {
+        avgGain = (avgGain * (period - 1) + gain) / period;
+        avgLoss = (avgLoss * (period - 1) + loss) / period;
+      }
+
+      if (avgLoss === 0) return avgGain === 0 ? 50 : 100;
+      return 100 - 100 / (1 + avgGain / avgLoss);
+    },
+    save: () => ({ previous, avgGain, avgLoss, changes }),
+    load: (state) => {
+      previous = state.previous as number | null;
+      avgGain = state.avgGain as number;
+      avgLoss = state.avgLoss as number;
+      changes = state.changes as number;
+    },
+  };
+}
+
+/**
+ * Bollinger bands: SMA plus/minus `stdDevs` population standard deviations
+ */
+export function createBollinger(period: number, stdDevs: number): Indicator<BollingerBands> {
+  const window = createWindow(period);
+
+  return {
+    update: (value) => {
+      window.push(value);
+      if (!window.full) return null;
+
+      const middle = window.sum / period;
+      const variance = Math.max(window.sumSquares / period - middle * middle, 0);
+      const width = stdDevs * Math.sqrt(variance);
+
+      return { middle, upper: middle + width, lower: middle - width };
+    },
+    save: () => window.save(),
+    load: (state) => window.load(state),
+  };
+}
+
+/**
+ * Run an indicator over candle closes, one reading per candle
+ */
+export function indicatorSeries<T>(candles: Candle[], indicator: Indicator<T>): (T | null)[] {
+  return candles.map((c) => indicator.update(c.close));
+}
+
+function createWindow(size: number) {
+  const values: number[] = [];
+  let head = 0;
+
+  const window = {
+    sum: 0,
+    sumSquares: 0,
+    full: false,
+    push(value: number) {
+      if (values.length < size) {
+        values.push(value);
+      } else {
+        const dropped = values[head]!;
+        values[head] = value;
+        head = (head + 1) % size;
+        window.sum -= dropped;
+        window.sumSquares -= dropped * dropped;
+      }
+      window.sum += value;
+      window.sumSquares += value * value;
+      window.full = values.length === size;
+    },
+    save: (): IndicatorState => ({ values: [...values], head, sum: window.sum, sumSquares: window.sumSquares }),
+    load(state: IndicatorState) {
+      values.splice(0, values.length, ...(state.values as number[]));
+      head = state.head as number;
+      window.sum = state.sum as number;
+      window.sumSquares = state.sumSquares as number;
+      window.full = values.length === size;
+    },
+  };
+  return window;
+}
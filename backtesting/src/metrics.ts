@@ -0,0 +1,168 @@
+import type { RoundResult, RiskMetrics } from './types';
+
+/**
+ * Performance and risk metrics shared by the backtesting engines
+ */
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+type EquityPoint = { timestamp: number; value: number };
+
+export interface DrawdownStats {
+  maxDrawdown: number; // Percent
+  maxDrawdownDurationMs: number; // Longest peak-to-recovery span (or peak-to-end)
+  timeUnderWaterPercent: number; // Share of points below the running peak
+}
+
+/**
+ * Drawdown depth and duration over an equity curve
+ */
+export function calculateDrawdown(equity: EquityPoint[], initialCapital: number): DrawdownStats {
+  let maxDrawdown = 0;
+  let maxDrawdownDurationMs = 0;
+  let underWater = 0;
+
+  let peak = initialCapital;
+  let peakTimestamp = equity[0]?.timestamp ?? 0;
+
+  for (const point of equity) {
+    if (point.value >= peak) {
+      peak = point.value;
+      peakTimestamp = point.timestamp;
+      continue;
+    }
+
+    underWater++;
+    const drawdown = peak > 0 ? ((peak - point.value) / peak) * 100 : 0;
+    if (drawdown > maxDrawdown) maxDrawdown = drawdown;
+    maxDrawdownDurationMs = Math.max(maxDrawdownDurationMs, point.timestamp - peakTimestamp);
+  }
+
+  return {
+    maxDrawdown,
+    maxDrawdownDurationMs,
+    timeUnderWaterPercent: equity.length > 0 ? (underWater / equity.length) * 100 : 0,
+  };
+}
+
+/**
+ * Period-over-period returns of an equity curve
+ */
+export function periodReturns(equity: EquityPoint[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < equity.length; i++) {
+    const prev = equity[i - 1]!.value;
+    if (prev > 0) returns.push(equity[i]!.value / prev - 1);
+  }
+  return returns;
+}
+
+/**
+ * Number of equity periods in a year, from the median spacing between points
+ */
+export function periodsPerYear(equity: EquityPoint[]): number {
+  if (equity.length < 2) return 0;
+
+  const deltas = equity
+    .slice(1)
+    .map((p, i) => p.timestamp - equity[i]!.timestamp)
+    .sort((a, b) => a - b);
+  const median = deltas[Math.floor(deltas.length / 2)]!;
+
+  return median > 0 ? YEAR_MS / median : 0;
+}
+
+export function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+export function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1]! + sorted[mid]!) / 2 : sorted[mid]!;
+}
+
+/**
+ * Pearson correlation of two equally long series, 0 when either is flat
+ */
+export function correlation(a: number[], b: number[]): number {
+  const n = Math.min(a.length, b.length);
+  if (n < 2) return 0;
+
+  const meanA = mean(a.slice(0, n));
+  const meanB = mean(b.slice(0, n));
+
+  let cov = 0;
+  let varA = 0;
+  let varB = 0;
+  for (let i = 0; i < n; i++) {
+    const da = a[i]! - meanA;
+    const db = b[i]! - meanB;
+    cov += da * db;
+    varA += da ** 2;
+    varB += db ** 2;
+  }
+
+  return varA > 0 && varB > 0 ? cov / Math.sqrt(varA * varB) : 0;
+}
+
+/**
+ * Risk-adjusted metrics for a finished run (risk-free rate = 0)
+ */
+export function calculateRiskMetrics(input: {
+  equity: EquityPoint[];
+  rounds: RoundResult[];
+  initialCapital: number;
+  candlesInMarket: number;
+  maxCapitalDeployed: number;
+}): RiskMetrics {
+  const { equity, rounds, initialCapital } = input;
+
+  const returns = periodReturns(equity);
+  const annualization = Math.sqrt(periodsPerYear(equity));
+  const avgReturn = mean(returns);
+
+  const stdDev = Math.sqrt(mean(returns.map((r) => (r - avgReturn) ** 2)));
+  const downsideDev = Math.sqrt(mean(returns.map((r) => Math.min(r, 0) ** 2)));
+
+  const sharpeRatio = stdDev > 0 ? (avgReturn / stdDev) * annualization : 0;
+  const sortinoRatio = downsideDev > 0 ? (avgReturn / downsideDev) * annualization : 0;
+
+  // Calmar: annualized (compound) return over max drawdown
+  const drawdown = calculateDrawdown(equity, initialCapital);
+  const finalValue = equity[equity.length - 1]?.value ?? initialCapital;
+  const durationMs = (equity[equity.length - 1]?.timestamp ?? 0) - (equity[0]?.timestamp ?? 0);
+  const annualizedReturn =
+    durationMs > 0 && initialCapital > 0 && finalValue > 0
+      ? (Math.pow(finalValue / initialCapital, YEAR_MS / durationMs) - 1) * 100
+      : 0;
+  const calmarRatio = drawdown.maxDrawdown > 0 ? annualizedReturn / drawdown.maxDrawdown : 0;
+
+  // Round statistics
+  const durations = rounds.map((r) => r.endTimestamp - r.startTimestamp);
+  const grossProfit = rounds.filter((r) => r.realizedPnL > 0).reduce((sum, r) => sum + r.realizedPnL, 0);
+  const grossLoss = -rounds.filter((r) => r.realizedPnL < 0).reduce((sum, r) => sum + r.realizedPnL, 0);
+
+  let longestLosingStreak = 0;
+  let streak = 0;
+  for (const round of rounds) {
+    streak = round.realizedPnL <= 0 ? streak + 1 : 0;
+    longestLosingStreak = Math.max(longestLosingStreak, streak);
+  }
+
+  return {
+    sharpeRatio,
+    sortinoRatio,
+    calmarRatio,
+    timeInMarketPercent: equity.length > 0 ? (input.candlesInMarket / equity.length) * 100 : 0,
+    maxCapitalDeployed: input.maxCapitalDeployed,
+    maxDrawdownDurationMs: drawdown.maxDrawdownDurationMs,
+    timeUnderWaterPercent: drawdown.timeUnderWaterPercent,
+    averageRoundDurationMs: mean(durations),
+    medianRoundDurationMs: median(durations),
+    maxRoundDurationMs: durations.length > 0 ? Math.max(...durations) : 0,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? Infinity : 0,
+    longestLosingStreak,
+  };
+}
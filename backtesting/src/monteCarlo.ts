@@ -0,0 +1,100 @@
+import { DcaBacktester } from './DcaBacktester';
+import { createRng, deriveSeed } from './random';
+import { generateRandomWalk, generateGbm, blockBootstrap } from './syntheticData';
+import type { DcaConfig, Candle, MonteCarloOptions, MonteCarloResults, Percentiles } from './types';
+
+/**
+ * Monte Carlo simulation
+ * Runs the DcaBacktester over N seeded synthetic paths and reports outcome distributions.
+ * Path i only depends on (seed, i), so results are reproducible.
+ */
+
+export const MAX_MONTE_CARLO_PATHS = 1000;
+
+/**
+ * Generate the i-th synthetic path for the options
+ */
+export function generatePath(
+  options: MonteCarloOptions,
+  index: number,
+  source: Candle[] = []
+): Candle[] {
+  const rng = createRng(deriveSeed(options.seed, index));
+  const startTimestamp = source[0]?.timestamp ?? 0;
+
+  switch (options.model) {
+    case 'RANDOM_WALK':
+      return generateRandomWalk({ ...options, startTimestamp }, rng);
+    case 'GBM':
+      return generateGbm({ ...options, startTimestamp }, rng);
+    case 'BOOTSTRAP':
+      return blockBootstrap(source, { ...options, startTimestamp }, rng);
+  }
+}
+
+export function runMonteCarlo(
+  config: DcaConfig,
+  initialCapital: number,
+  options: MonteCarloOptions,
+  source: Candle[] = []
+): MonteCarloResults {
+  if (options.paths < 1 || options.paths > MAX_MONTE_CARLO_PATHS) {
+    throw new Error(`Paths must be between 1 and ${MAX_MONTE_CARLO_PATHS}`);
+  }
+
+  const finalValues: number[] = [];
+  const returns: number[] = [];
+  const drawdowns: number[] = [];
+  const rounds: number[] = [];
+  let losses = 0;
+  let exhausted = 0;
+
+  for (let i = 0; i < options.paths; i++) {
+    const candles = generatePath(options, i, source);
+    const results = new DcaBacktester(config, candles, initialCapital).run();
+
+    finalValues.push(results.finalValue);
+    returns.push(results.totalReturnPercent);
+    drawdowns.push(results.maxDrawdown);
+    rounds.push(results.roundsCompleted);
+
+    if (results.finalValue < initialCapital) losses++;
+    if (results.dcaOrdersSkipped > 0) exhausted++;
+  }
+
+  return {
+    config,
+    options,
+    initialCapital,
+    finalValue: percentiles(finalValues),
+    totalReturnPercent: percentiles(returns),
+    maxDrawdown: percentiles(drawdowns),
+    roundsCompleted: percentiles(rounds),
+    probabilityOfLoss: losses / options.paths,
+    probabilityOfCapitalExhaustion: exhausted / options.paths,
+  };
+}
+
+/**
+ * Linear-interpolated percentiles of a sample
+ */
+export function percentiles(values: number[]): Percentiles {
+  const sorted = [...values].sort((a, b) => a - b);
+
+  const at = (q: number) => {
+    if (sorted.length === 0) return 0;
+    const pos = (sorted.length - 1) * q;
+    const lo = Math.floor(pos);
+    const hi = Math.ceil(pos);
+    return sorted[lo]! + (sorted[hi]! - sorted[lo]!) * (pos - lo);
+  };
+
+  return {
+    p5: at(0.05),
+    p25: at(0.25),
+    p50: at(0.5),
+    p75: at(0.75),
+    p95: at(0.95),
+    mean: sorted.length > 0 ? sorted.reduce((sum, v) => sum + v, 0) / sorted.length : 0,
+  };
+}
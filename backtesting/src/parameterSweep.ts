@@ -0,0 +1,166 @@
+import { DcaBacktester } from './DcaBacktester';
+import type {
+  DcaConfig,
+  Candle,
+  BacktestResults,
+  SweepRange,
+  SweepParam,
+  SweepMetric,
+  SweepResult,
+  SweepHeatmap,
+} from './types';
+
+/**
+ * Parameter sweep over DcaConfig fields
+ * Runs every combination of the given ranges over the same candles
+ */
+
+export const MAX_SWEEP_COMBINATIONS = 2000;
+
+export const SWEEP_METRICS: Record<SweepMetric, { label: string; higherIsBetter: boolean }> = {
+  totalReturnPercent: { label: 'RETURN %', higherIsBetter: true },
+  maxDrawdown: { label: 'MAX_DD %', higherIsBetter: false },
+  winRate: { label: 'WIN_RATE %', higherIsBetter: true },
+};
+
+/**
+ * Expand a range into its values, min and max inclusive
+ */
+export function expandRange(range: SweepRange): number[] {
+  if (range.step <= 0) {
+    throw new Error(`Invalid step for ${range.param}: ${range.step}`);
+  }
+  if (range.max < range.min) {
+    throw new Error(`Invalid range for ${range.param}: ${range.min} > ${range.max}`);
+  }
+
+  const values: number[] = [];
+  const steps = Math.floor((range.max - range.min) / range.step + 1e-9);
+  for (let i = 0; i <= steps; i++) {
+    // Round away float drift (e.g. 0.1 + 0.2)
+    values.push(Number((range.min + i * range.step).toFixed(6)));
+  }
+
+  return values;
+}
+
+/**
+ * Number of backtests a sweep will run
+ */
+export function countCombinations(ranges: SweepRange[]): number {
+  return ranges.reduce((count, range) => count * expandRange(range).length, 1);
+}
+
+/**
+ * Build every config in the cartesian product of the ranges
+ */
+export function buildSweepConfigs(baseConfig: DcaConfig, ranges: SweepRange[]): DcaConfig[] {
+  let configs: DcaConfig[] = [{ ...baseConfig }];
+
+  for (const range of ranges) {
+    const values = expandRange(range);
+    const next: DcaConfig[] = [];
+    for (const config of configs) {
+      for (const value of values) {
+        next.push({ ...config, [range.param]: value });
+      }
+    }
+    configs = next;
+  }
+
+  return configs;
+}
+
+/**
+ * Run a backtest for every combination and collect the summary metrics
+ */
+export function runParameterSweep(
+  baseConfig: DcaConfig,
+  ranges: SweepRange[],
+  candles: Candle[],
+  initialCapital: number
+): SweepResult[] {
+  const combinations = countCombinations(ranges);
+  if (combinations > MAX_SWEEP_COMBINATIONS) {
+    throw new Error(
+      `Sweep has ${combinations} combinations, max is ${MAX_SWEEP_COMBINATIONS}. Narrow the ranges or increase the steps.`
+    );
+  }
+
+  return buildSweepConfigs(baseConfig, ranges).map((config) =>
+    summarizeResults(new DcaBacktester(config, candles, initialCapital).run())
+  );
+}
+
+/**
+ * Reduce a full backtest to the metrics a sweep compares on
+ */
+export function summarizeResults(results: BacktestResults): SweepResult {
+  return {
+    config: results.config,
+    totalReturnPercent: results.totalReturnPercent,
+    maxDrawdown: results.maxDrawdown,
+    winRate: results.winRate,
+    roundsCompleted: results.roundsCompleted,
+    totalTrades: results.totalTrades,
+  };
+}
+
+/**
+ * Whether `a` scores better than `b` on the metric
+ */
+export function isBetter(a: SweepResult, b: SweepResult, metric: SweepMetric): boolean {
+  return SWEEP_METRICS[metric].higherIsBetter ? a[metric] > b[metric] : a[metric] < b[metric];
+}
+
+/**
+ * Sort results by a metric or a swept parameter, descending by default
+ */
+export function sortSweepResults(
+  results: SweepResult[],
+  key: SweepMetric | SweepParam,
+  descending = true
+): SweepResult[] {
+  const value = (r: SweepResult) =>
+    key in SWEEP_METRICS ? r[key as SweepMetric] : r.config[key as SweepParam];
+
+  return [...results].sort((a, b) => (descending ? value(b) - value(a) : value(a) - value(b)));
+}
+
+/**
+ * Best result on the metric
+ */
+export function bestSweepResult(results: SweepResult[], metric: SweepMetric): SweepResult | null {
+  return results.reduce<SweepResult | null>(
+    (best, r) => (best === null || isBetter(r, best, metric) ? r : best),
+    null
+  );
+}
+
+/**
+ * 2-D grid of two parameters against a metric
+ * When other parameters were swept too, each cell holds the best result for that pair
+ */
+export function buildHeatmap(
+  results: SweepResult[],
+  xParam: SweepParam,
+  yParam: SweepParam,
+  metric: SweepMetric
+): SweepHeatmap {
+  const xValues = [...new Set(results.map((r) => r.config[xParam]))].sort((a, b) => a - b);
+  const yValues = [...new Set(results.map((r) => r.config[yParam]))].sort((a, b) => a - b);
+
+  const cells: (SweepResult | null)[][] = yValues.map(() => xValues.map(() => null));
+
+  for (const r of results) {
+    const x = xValues.indexOf(r.config[xParam]);
+    const y = yValues.indexOf(r.config[yParam]);
+    const row = cells[y]!;
+    const current = row[x]!;
+    if (current === null || isBetter(r, current, metric)) {
+      row[x] = r;
+    }
+  }
+
+  return { xParam, yParam, metric, xValues, yValues, cells };
+}
@@ -0,0 +1,168 @@
+import { DcaBacktester } from './DcaBacktester';
+import { calculateDrawdown, correlation } from './metrics';
+import type {
+  Candle,
+  CapitalAccount,
+  PortfolioLeg,
+  PortfolioResults,
+  MissedDcaOrder,
+} from './types';
+
+/**
+ * Portfolio backtest
+ * Several DCA bots share one capital pool. Candles from every leg are merged and
+ * stepped in time order; legs with a candle at the same timestamp go in leg order,
+ * so earlier legs get first call on the pool.
+ */
+
+interface Pool {
+  cash: number;
+  deployed: number[]; // Quote tied up in each leg's open round
+}
+
+/**
+ * A leg's view onto the shared pool. Proceeds only come back when a round closes,
+ * so a deposit also releases everything the leg had deployed.
+ */
+function createLegAccount(
+  pool: Pool,
+  legIndex: number,
+  leg: PortfolioLeg,
+  referenceCapital: number,
+  missed: MissedDcaOrder[]
+): CapitalAccount & { netFlow: () => number } {
+  const cap = leg.maxDeployed ?? Infinity;
+  let netFlow = 0;
+
+  const capRoom = () => cap - pool.deployed[legIndex]!;
+
+  return {
+    available: () => Math.min(pool.cash, capRoom()),
+    balance: () => referenceCapital + netFlow,
+    netFlow: () => netFlow,
+    withdraw: (amount) => {
+      pool.cash -= amount;
+      pool.deployed[legIndex]! += amount;
+      netFlow -= amount;
+    },
+    deposit: (amount) => {
+      pool.cash += amount;
+      pool.deployed[legIndex] = 0;
+      netFlow += amount;
+    },
+    dcaSkipped: (orderSize, dcaLevel, timestamp) => {
+      const othersDeployed = pool.deployed.reduce(
+        (sum, d, i) => (i === legIndex ? sum : sum + d),
+        0
+      );
+
+      // Only count orders the leg could have funded if the other legs were flat
+      if (
+        capRoom() >= orderSize &&
+        pool.cash < orderSize &&
+        pool.cash + othersDeployed >= orderSize
+      ) {
+        missed.push({
+          timestamp,
+          legIndex,
+          symbol: leg.symbol,
+          dcaLevel,
+          orderSize,
+          poolCash: pool.cash,
+        });
+      }
+    },
+  };
+}
+
+/**
+ * Run every leg against one shared pool of `initialCapital`
+ */
+export function runPortfolioBacktest(
+  legs: PortfolioLeg[],
+  candles: Record<string, Candle[]>,
+  initialCapital: number
+): PortfolioResults {
+  if (legs.length === 0) {
+    throw new Error('Portfolio needs at least one leg');
+  }
+
+  const pool: Pool = { cash: initialCapital, deployed: legs.map(() => 0) };
+  const missed: MissedDcaOrder[] = [];
+
+  const runners = legs.map((leg, i) => {
+    const series = candles[leg.symbol];
+    if (!series || series.length === 0) {
+      throw new Error(`No candles for ${leg.symbol}`);
+    }
+
+    const referenceCapital = initialCapital * leg.allocation;
+    const account = createLegAccount(pool, i, leg, referenceCapital, missed);
+    const backtester = new DcaBacktester(leg.config, series, referenceCapital, 24, account);
+
+    return { leg, series, account, backtester };
+  });
+
+  // Merge all candles into one timeline
+  const events = runners
+    .flatMap((runner, legIndex) => runner.series.map((candle) => ({ legIndex, candle })))
+    .sort((a, b) => a.candle.timestamp - b.candle.timestamp || a.legIndex - b.legIndex);
+
+  const equity: { timestamp: number; value: number }[] = [];
+  const legValues: number[][] = runners.map(() => []);
+  let maxCapitalDeployed = 0;
+
+  for (let i = 0; i < events.length; i++) {
+    const { legIndex, candle } = events[i]!;
+    runners[legIndex]!.backtester.step(candle);
+
+    // Mark to market once every leg has seen this timestamp
+    if (events[i + 1]?.candle.timestamp === candle.timestamp) continue;
+
+    const positions = runners.reduce(
+      (sum, r) => sum + r.backtester.currentValue - r.account.balance(),
+      0
+    );
+    equity.push({ timestamp: candle.timestamp, value: pool.cash + positions });
+    runners.forEach((r, j) => legValues[j]!.push(r.backtester.currentValue));
+
+    const deployed = pool.deployed.reduce((sum, d) => sum + d, 0);
+    maxCapitalDeployed = Math.max(maxCapitalDeployed, deployed);
+  }
+
+  // Close open rounds, returning their proceeds to the pool
+  const legResults = runners.map((runner, i) => {
+    const results = runner.backtester.finish();
+    const contribution = runner.account.netFlow();
+
+    return {
+      leg: runner.leg,
+      results,
+      contribution,
+      contributionPercent: initialCapital > 0 ? (contribution / initialCapital) * 100 : 0,
+      missedDcaOrders: missed.filter((m) => m.legIndex === i).length,
+    };
+  });
+
+  const legReturns = legValues.map((values) =>
+    values.slice(1).map((v, t) => (values[t]! > 0 ? v / values[t]! - 1 : 0))
+  );
+
+  const finalValue = pool.cash;
+  const totalReturn = finalValue - initialCapital;
+
+  return {
+    startTimestamp: equity[0]?.timestamp ?? 0,
+    endTimestamp: equity[equity.length - 1]?.timestamp ?? 0,
+    initialCapital,
+    finalValue,
+    totalReturn,
+    totalReturnPercent: initialCapital > 0 ? (totalReturn / initialCapital) * 100 : 0,
+    maxDrawdown: calculateDrawdown(equity, initialCapital).maxDrawdown,
+    maxCapitalDeployed,
+    legs: legResults,
+    correlation: legReturns.map((a) => legReturns.map((b) => correlation(a, b))),
+    missedDcaOrders: missed,
+    equity,
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * Seeded pseudo-random number generation
+ * Same seed, same sequence, so synthetic runs can be reproduced
+ */
+
+export type Rng = () => number;
+
+/**
+ * mulberry32: small, fast 32-bit PRNG returning floats in [0, 1)
+ */
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal sample (Box-Muller)
+ */
+export function gaussian(rng: Rng): number {
+  let u = 0;
+  while (u === 0) u = rng();
+  const v = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Integer in [0, max)
+ */
+export function randomInt(rng: Rng, max: number): number {
+  return Math.floor(rng() * max);
+}
+
+/**
+ * Derive the seed of the n-th sub-stream, so path n is the same whatever N is
+ */
+export function deriveSeed(seed: number, index: number): number {
+  return (Math.imul(seed ^ 0x9e3779b9, 0x85ebca6b) + Math.imul(index + 1, 0xc2b2ae35)) >>> 0;
+}
@@ -0,0 +1,116 @@
+import type { BacktestResults, DcaConfig, EscrowLadderConfig, CandleSourceKind } from './types';
+
+/**
+ * Backtest report export
+ * CSV for trades and equity, versioned JSON for the full results. JSON has no
+ * Infinity/NaN or bigints, so non-finite numbers (e.g. profitFactor without
+ * losses) are written as `{"$num": "Infinity"}` and bigints (escrow ladder
+ * amounts and prices) as `{"$bigint": "<decimal>"}`, then restored on import.
+ * Plain strings always come back as strings.
+ */
+
+export const REPORT_FORMAT = 'superdca-backtest';
+export const REPORT_VERSION = 1;
+
+export interface ReportMeta {
+  symbol: string;
+  start: number;
+  end: number;
+  source: { kind: CandleSourceKind | 'ORACLE'; label: string }; // ORACLE = paper trading session
+  timeframe: string;
+}
+
+export interface BacktestReport {
+  format: typeof REPORT_FORMAT;
+  version: number;
+  exportedAt: number;
+  meta: ReportMeta;
+  results: BacktestResults<DcaConfig | EscrowLadderConfig>;
+}
+
+const NON_FINITE = ['Infinity', '-Infinity', 'NaN'];
+
+/**
+ * One row per fill, with the round it belongs to
+ */
+export function tradesToCsv(results: BacktestResults<DcaConfig | EscrowLadderConfig>): string {
+  const rows = [['round', 'timestamp', 'type', 'dca_level', 'price', 'quantity', 'cost', 'round_exit', 'round_pnl']];
+
+  for (const round of results.rounds) {
+    for (const entry of round.entries) {
+      rows.push([
+        String(round.roundNumber),
+        new Date(entry.timestamp).toISOString(),
+        entry.type,
+        entry.dcaLevel !== undefined ? String(entry.dcaLevel) : '',
+        String(entry.price),
+        String(entry.quantity),
+        String(entry.cost),
+        round.exitReason,
+        String(round.realizedPnL),
+      ]);
+    }
+  }
+  return toCsv(rows);
+}
+
+export function equityToCsv(results: BacktestResults<DcaConfig | EscrowLadderConfig>): string {
+  const rows = [['timestamp', 'value']];
+  for (const point of results.equity) {
+    rows.push([new Date(point.timestamp).toISOString(), String(point.value)]);
+  }
+  return toCsv(rows);
+}
+
+export function serializeReport(
+  results: BacktestResults<DcaConfig | EscrowLadderConfig>,
+  meta: ReportMeta
+): string {
+  const report: BacktestReport = {
+    format: REPORT_FORMAT,
+    version: REPORT_VERSION,
+    exportedAt: Date.now(),
+    meta,
+    results,
+  };
+
+  return JSON.stringify(report, (_, value) => {
+    if (typeof value === 'bigint') return { $bigint: value.toString() };
+    return typeof value === 'number' && !Number.isFinite(value) ? { $num: String(value) } : value;
+  });
+}
+
+export function parseReport(text: string): BacktestReport {
+  const report = JSON.parse(text, (_, value) => reviveTagged(value));
+
+  if (report?.format !== REPORT_FORMAT) {
+    throw new Error('Not a backtest report');
+  }
+  if (report.version !== REPORT_VERSION) {
+    throw new Error(`Unsupported report version ${report.version} (expected ${REPORT_VERSION})`);
+  }
+  if (!report.results || !Array.isArray(report.results.rounds) || !Array.isArray(report.results.equity)) {
+    throw new Error('Report has no results');
+  }
+
+  return report as BacktestReport;
+}
+
+function reviveTagged(value: unknown): unknown {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return value;
+  const keys = Object.keys(value);
+  if (keys.length !== 1) return value;
+
+  const tagged = value as { $num?: unknown; $bigint?: unknown };
+  if (typeof tagged.$num === 'string' && NON_FINITE.includes(tagged.$num)) return Number(tagged.$num);
+  if (typeof tagged.$bigint === 'string' && /^-?\d+$/.test(tagged.$bigint)) return BigInt(tagged.$bigint);
+  return value;
+}
+
+function toCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(escapeCell).join(',')).join('\n') + '\n';
+}
+
+function escapeCell(cell: string): string {
+  return /[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
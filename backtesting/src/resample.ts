@@ -0,0 +1,154 @@
+import type {
+  Candle,
+  CandleSeries,
+  Timeframe,
+  SparseBucketMode,
+  SparseBucket,
+  ResampleInfo,
+} from './types';
+import { medianInterval, validateCandles } from './candleValidation';
+
+/**
+ * Candle resampling
+ * Aggregates a finer series into fixed UTC-aligned buckets: open = first, close = last,
+ * high/low over the bucket, volume summed. Going to a finer timeframe is refused,
+ * since it would have to invent prices.
+ */
+
+const MINUTE_MS = 60 * 1000;
+
+export const TIMEFRAMES: Record<Timeframe, { label: string; ms: number }> = {
+  '5m': { label: '5 MIN', ms: 5 * MINUTE_MS },
+  '15m': { label: '15 MIN', ms: 15 * MINUTE_MS },
+  '1h': { label: '1 HOUR', ms: 60 * MINUTE_MS },
+  '4h': { label: '4 HOURS', ms: 240 * MINUTE_MS },
+  '1d': { label: '1 DAY', ms: 1440 * MINUTE_MS },
+};
+
+interface Bucket {
+  timestamp: number;
+  candles: Candle[];
+}
+
+/**
+ * Aggregate sorted candles into buckets of `intervalMs`. Empty buckets are skipped.
+ */
+export function aggregateCandles(candles: Candle[], intervalMs: number): Candle[] {
+  return bucketize(candles, intervalMs).map(mergeBucket);
+}
+
+export function resampleCandles(
+  candles: Candle[],
+  timeframe: Timeframe,
+  sparseMode: SparseBucketMode = 'FLAG'
+): { candles: Candle[]; info: ResampleInfo } {
+  const targetMs = TIMEFRAMES[timeframe].ms;
+  const sourceIntervalMs = medianInterval(candles);
+
+  if (sourceIntervalMs > targetMs) {
+    throw new Error(
+      `Candles are ${formatInterval(sourceIntervalMs)} apart, too coarse to resample to ${timeframe}`
+    );
+  }
+
+  const expected = sourceIntervalMs > 0 ? Math.round(targetMs / sourceIntervalMs) : 1;
+  const resampled: Candle[] = [];
+  const sparse: SparseBucket[] = [];
+
+  let previous: Candle | undefined;
+  for (const bucket of withEmptyBuckets(bucketize(candles, targetMs), targetMs)) {
+    const count = bucket.candles.length;
+
+    if (count > 0) {
+      previous = mergeBucket(bucket);
+      resampled.push(previous);
+      if (count < expected) sparse.push({ timestamp: bucket.timestamp, count, expected, filled: false });
+      continue;
+    }
+
+    const filled = sparseMode === 'FORWARD_FILL' && previous !== undefined;
+    sparse.push({ timestamp: bucket.timestamp, count: 0, expected, filled });
+
+    if (filled && previous) {
+      const price = previous.close;
+      resampled.push({ timestamp: bucket.timestamp, open: price, high: price, low: price, close: price, volume: 0 });
+    }
+  }
+
+  return {
+    candles: resampled,
+    info: { timeframe, sourceIntervalMs, sparseMode, sparse },
+  };
+}
+
+/**
+ * Resample a loaded series and re-validate it, so gaps reflect the new timeframe
+ */
+export function resampleSeries(
+  series: CandleSeries,
+  timeframe: Timeframe,
+  sparseMode: SparseBucketMode = 'FLAG'
+): CandleSeries {
+  const { candles, info } = resampleCandles(series.candles, timeframe, sparseMode);
+
+  return {
+    ...series,
+    candles,
+    validation: validateCandles(candles),
+    resample: info,
+  };
+}
+
+export function formatInterval(ms: number): string {
+  if (ms % (1440 * MINUTE_MS) === 0) return `${ms / (1440 * MINUTE_MS)}d`;
+  if (ms % (60 * MINUTE_MS) === 0) return `${ms / (60 * MINUTE_MS)}h`;
+  return `${Math.round(ms / MINUTE_MS)}m`;
+}
+
+function bucketize(candles: Candle[], intervalMs: number): Bucket[] {
+  const buckets: Bucket[] = [];
+
+  for (const candle of candles) {
+    const timestamp = Math.floor(candle.timestamp / intervalMs) * intervalMs;
+    const last = buckets[buckets.length - 1];
+
+    if (last && last.timestamp === timestamp) {
+      last.candles.push(candle);
+    } else {
+      buckets.push({ timestamp, candles: [candle] });
+    }
+  }
+  return buckets;
+}
+
+function withEmptyBuckets(buckets: Bucket[], intervalMs: number): Bucket[] {
+  const all: Bucket[] = [];
+
+  for (const bucket of buckets) {
+    const last = all[all.length - 1];
+    if (last) {
+      for (let t = last.timestamp + intervalMs; t < bucket.timestamp; t += intervalMs) {
+        all.push({ timestamp: t, candles: [] });
+      }
+    }
+    all.push(bucket);
+  }
+  return all;
+}
+
+function mergeBucket(bucket: Bucket): Candle {
+  // Buckets are only created with a candle in them
+  const first = bucket.candles[0]!;
+  const last = bucket.candles[bucket.candles.length - 1]!;
+
+  let high = first.high;
+  let low = first.low;
+  let volume = 0;
+  for (const c of bucket.candles) {
+    high = Math.max(high, c.high);
+    low = Math.min(low, c.low);
+    volume += c.volume;
+  }
+
+  return { timestamp: bucket.timestamp, open: first.open, high, low, close: last.close, volume };
+}
@@ -0,0 +1,127 @@
+import type { Candle } from './types';
+import { gaussian, randomInt, type Rng } from './random';
+
+/**
+ * Synthetic price path generators
+ * All generators draw from the given seeded Rng, never Math.random()
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+const YEAR_MS = 365 * 24 * HOUR_MS;
+
+export interface PathOptions {
+  startTimestamp: number;
+  startPrice: number;
+  length: number; // Number of candles
+  intervalMs?: number; // Defaults to 1 hour
+}
+
+/**
+ * Random walk: each step moves up to ±volatility (uniform)
+ */
+export function generateRandomWalk(
+  options: PathOptions & { volatility: number },
+  rng: Rng
+): Candle[] {
+  const interval = options.intervalMs ?? HOUR_MS;
+  const candles: Candle[] = [];
+  let price = options.startPrice;
+
+  for (let i = 0; i < options.length; i++) {
+    const open = price;
+    const close = open * (1 + (rng() - 0.5) * 2 * options.volatility);
+    const wick = options.volatility / 4;
+
+    candles.push({
+      timestamp: options.startTimestamp + i * interval,
+      open,
+      high: Math.max(open, close) * (1 + rng() * wick),
+      low: Math.min(open, close) * (1 - rng() * wick),
+      close,
+      volume: rng() * 1000000,
+    });
+
+    price = close;
+  }
+
+  return candles;
+}
+
+/**
+ * Geometric Brownian motion with annualized drift and volatility (e.g. 0.5 = 50%)
+ */
+export function generateGbm(
+  options: PathOptions & { drift: number; volatility: number },
+  rng: Rng
+): Candle[] {
+  const interval = options.intervalMs ?? HOUR_MS;
+  const dt = interval / YEAR_MS;
+  const stepVol = options.volatility * Math.sqrt(dt);
+  const stepDrift = (options.drift - (options.volatility * options.volatility) / 2) * dt;
+
+  const candles: Candle[] = [];
+  let price = options.startPrice;
+
+  for (let i = 0; i < options.length; i++) {
+    const open = price;
+    const close = open * Math.exp(stepDrift + stepVol * gaussian(rng));
+
+    candles.push({
+      timestamp: options.startTimestamp + i * interval,
+      open,
+      high: Math.max(open, close) * Math.exp(Math.abs(gaussian(rng)) * stepVol * 0.5),
+      low: Math.min(open, close) * Math.exp(-Math.abs(gaussian(rng)) * stepVol * 0.5),
+      close,
+      volume: rng() * 1000000,
+    });
+
+    price = close;
+  }
+
+  return candles;
+}
+
+/**
+ * Block bootstrap: rebuild a path from randomly chosen runs of consecutive real candles.
+ * Each source candle is replayed relative to the previous close, so the candle shape
+ * (gaps, wicks) and short-range autocorrelation within a block are preserved.
+ */
+export function blockBootstrap(
+  source: Candle[],
+  options: Omit<PathOptions, 'startPrice'> & { startPrice?: number; blockSize: number },
+  rng: Rng
+): Candle[] {
+  if (source.length < 2) {
+    throw new Error('Block bootstrap needs at least 2 source candles');
+  }
+
+  const interval = options.intervalMs ?? source[1]!.timestamp - source[0]!.timestamp;
+  const blockSize = Math.max(1, Math.min(options.blockSize, source.length - 1));
+
+  const candles: Candle[] = [];
+  let prevClose = options.startPrice ?? source[0]!.close;
+
+  while (candles.length < options.length) {
+    // Source index 0 has no previous close, so blocks start at 1
+    const start = 1 + randomInt(rng, source.length - blockSize);
+
+    for (let j = start; j < start + blockSize && candles.length < options.length; j++) {
+      const ref = source[j - 1]!.close;
+      const c = source[j]!;
+
+      const candle: Candle = {
+        timestamp: options.startTimestamp + candles.length * interval,
+        open: prevClose * (c.open / ref),
+        high: prevClose * (c.high / ref),
+        low: prevClose * (c.low / ref),
+        close: prevClose * (c.close / ref),
+        volume: c.volume,
+      };
+
+      candles.push(candle);
+      prevClose = candle.close;
+    }
+  }
+
+  return candles;
+}
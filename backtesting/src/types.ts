@@ -0,0 +1,456 @@
+/**
+ * Escrow.sol shapes the ladder simulation works with.
+ * The frontend re-exports these from its own types.
+ */
+export interface EscrowParams {
+  dcaOrdersSize: number;                // Ladder depth (e.g., 10)
+  priceDeviationBPS: number;            // Step size in basis points (e.g., 200 = 2%)
+  takeProfitBPS: number;                // Unused, can be 0
+  priceMultiplierBPS: number;           // Exponential spacing multiplier (e.g., 11000 = 1.1x)
+  dcaOrderSizeMultiplierBPS: number;    // Size scaling multiplier (e.g., 10500 = 1.05x)
+  baseOrderAmount: bigint;              // First ladder rung amount
+  dcaOrderAmount: bigint;               // Subsequent orders base amount
+}
+
+export interface SellOrder {
+  amount: bigint;       // Total asset0 in order (smallest units)
+  filled: bigint;       // Amount already filled (smallest units)
+  price: bigint;        // Price: asset1 per asset0, scaled 1e8
+}
+
+/**
+ * Intrabar fill model
+ * - CLOSE: triggers checked against the close only, at most one DCA per candle
+ * - OLHC: price path open → low → high → close
+ * - OHLC: price path open → high → low → close
+ * - WORST_CASE: open → adverse extreme → close, the favourable wick is ignored
+ */
+export type FillModel = 'CLOSE' | 'OLHC' | 'OHLC' | 'WORST_CASE';
+
+/**
+ * Why a round was closed
+ */
+export type ExitReason = 'TAKE_PROFIT' | 'STOP_LOSS' | 'TRAILING' | 'TIMEOUT' | 'END_OF_DATA';
+
+/**
+ * When the stop-loss is active
+ * - ALWAYS: from the first fill
+ * - AFTER_LAST_DCA: only once every DCA level has filled (or been skipped)
+ */
+export type StopLossMode = 'ALWAYS' | 'AFTER_LAST_DCA';
+
+/**
+ * Execution costs on top of keeperFeeBps, all in quote units / bps
+ */
+export interface CostModel {
+  gasPerFill: number; // Fixed cost per transaction
+  makerFeeBps: number; // Resting orders: DCA and take-profit
+  takerFeeBps: number; // Market orders: base order, stop-loss, trailing, timeout, end of data
+  slippageBps: number; // Impact at 100% of the candle volume, scales with sqrt(order / volume); 0 on candles without volume
+}
+
+export interface CostBreakdown {
+  keeperFees: number;
+  exchangeFees: number;
+  gas: number;
+  slippage: number;
+  total: number;
+}
+
+export interface DcaConfig {
+  side: 'BUY' | 'SELL';
+  baseOrderSize: number;
+  dcaOrderSize: number;
+  priceDeviationBps: number;
+  takeProfitBps: number;
+  maxDcaOrders: number;
+  deviationMultiplier: number;
+  orderSizeMultiplier: number;
+  keeperFeeBps: number;
+  fillModel?: FillModel; // Defaults to CLOSE
+  stopLossBps?: number; // Adverse move from average entry that closes the round, 0 = off
+  stopLossMode?: StopLossMode; // Defaults to ALWAYS
+  trailingArmBps?: number; // Replaces the fixed take-profit: arm once this far in profit, 0 = off
+  trailingPullbackBps?: number; // Exit on this pullback from the best price after arming
+  maxRoundDurationHours?: number; // Force exit at the close once a round is this old, 0 = off
+  costModel?: CostModel; // Defaults to keeper fee only
+  entryConditions?: EntryConditions; // Start rounds unconditionally when omitted
+}
+
+/**
+ * Conditions a new round has to meet before it starts. Filters fail until their
+ * indicator has warmed up. Price filters are mirrored for SELL: RSI at or above
+ * 100 - threshold, close above the average, high touching the upper band.
+ */
+export type EntryFilter =
+  | { kind: 'RSI'; period: number; threshold: number } // RSI at or below threshold
+  | { kind: 'MOVING_AVERAGE'; average: 'SMA' | 'EMA'; period: number } // Close below the average
+  | { kind: 'BOLLINGER'; period: number; stdDevs: number } // Low touches the lower band
+  | { kind: 'COOLDOWN'; candles: number }; // Candles to wait after a take-profit exit
+
+export interface EntryConditions {
+  combine: 'AND' | 'OR';
+  filters: EntryFilter[];
+}
+
+export interface EntryFilterSkip {
+  filter: EntryFilter;
+  label: string;
+  skipped: number; // Candles where this filter failed and no round was started
+}
+
+/**
+ * Escrow ladder simulation config
+ * Amounts in params are in asset0 smallest units, like the on-chain Params
+ */
+export interface EscrowLadderConfig {
+  params: EscrowParams;
+  asset0Decimals: number;
+  asset1Decimals: number;
+}
+
+export interface Candle {
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface RoundResult {
+  roundNumber: number;
+  startTimestamp: number;
+  endTimestamp: number;
+  entryPrice: number;
+  exitPrice: number;
+  averageEntryPrice: number;
+  tradesExecuted: number;
+  dcaLevelsUsed: number;
+  realizedPnL: number;
+  realizedPnLPercent: number;
+  fillModel: FillModel;
+  exitReason: ExitReason;
+  costs: CostBreakdown;
+  entries: TradeEntry[];
+}
+
+export interface TradeEntry {
+  timestamp: number;
+  price: number;
+  type: 'BASE' | 'DCA' | ExitReason;
+  dcaLevel?: number;
+  quantity: number;
+  cost: number;
+}
+
+/**
+ * An order the engine wants executed. Backtests fill it on the spot at `price`;
+ * live callers place it and treat `triggerPrice` as the level it is due at.
+ */
+export interface OrderIntent extends TradeEntry {
+  roundNumber: number;
+  action: 'BUY' | 'SELL'; // Direction of this trade, not the strategy side
+  triggerPrice: number; // Before slippage
+  taker: boolean; // Market order; DCA and take-profit rest on the book
+}
+
+/**
+ * Engine state after a bar, for display and for placing resting orders
+ */
+export interface EngineSnapshot {
+  timestamp: number | null; // Last bar, null before the first
+  price: number | null;
+  roundNumber: number | null; // Open round, null while flat
+  position: number; // Base units, negative for a SELL-side short
+  averageEntryPrice: number;
+  capitalDeployed: number;
+  dcaLevelsUsed: number;
+  triggers: {
+    nextDca: number | null; // null once every level has filled
+    takeProfit: number | null; // null while trailing replaces it
+    stopLoss: number | null;
+    trailingStop: number | null; // null until armed
+  };
+  cash: number;
+  equity: number;
+}
+
+/**
+ * Risk-adjusted performance, computed from the equity series and rounds
+ */
+export interface RiskMetrics {
+  sharpeRatio: number; // Annualized, risk-free rate = 0
+  sortinoRatio: number; // Annualized, downside deviation only
+  calmarRatio: number; // Annualized return / max drawdown
+  timeInMarketPercent: number; // Share of candles with an open position
+  maxCapitalDeployed: number; // Most quote capital tied up at once
+  maxDrawdownDurationMs: number;
+  timeUnderWaterPercent: number; // Share of candles below the equity peak
+  averageRoundDurationMs: number;
+  medianRoundDurationMs: number;
+  maxRoundDurationMs: number;
+  profitFactor: number; // Gross profit / gross loss (Infinity with no losing rounds)
+  longestLosingStreak: number; // Consecutive rounds with PnL <= 0
+}
+
+export type BenchmarkKind = 'BUY_AND_HOLD' | 'TIME_DCA' | 'CASH';
+
+export interface BenchmarkResult {
+  kind: BenchmarkKind;
+  finalValue: number;
+  totalReturnPercent: number;
+  maxDrawdown: number;
+  alpha: number; // Strategy return % minus benchmark return %
+  relativeDrawdown: number; // Strategy max DD minus benchmark max DD (negative = shallower)
+  equity: { timestamp: number; value: number }[];
+}
+
+export interface BacktestResults<C = DcaConfig> extends RiskMetrics {
+  config: C;
+  startTimestamp: number;
+  endTimestamp: number;
+  initialCapital: number;
+  finalValue: number;
+  totalReturn: number;
+  totalReturnPercent: number;
+  roundsCompleted: number;
+  totalTrades: number;
+  winningRounds: number;
+  losingRounds: number;
+  winRate: number;
+  maxDrawdown: number;
+  averageRoundPnL: number;
+  dcaOrdersSkipped: number; // DCA levels reached without enough capital to fill
+  rounds: RoundResult[];
+  equity: { timestamp: number; value: number }[];
+  benchmarks: BenchmarkResult[];
+  costs: CostBreakdown;
+  breakEvenBaseOrderSize: number | null; // Smallest base order that is still profitable, null if none is
+  entriesBlocked: number; // Candles with capital for a new round that the entry conditions turned down
+  entryFilterSkips: EntryFilterSkip[];
+}
+
+/**
+ * Where a backtester draws order capital from and returns proceeds to
+ */
+export interface CapitalAccount {
+  available(): number; // Quote that can be spent on the next order
+  balance(): number; // Quote counted in this backtester's equity
+  withdraw(amount: number): void;
+  deposit(amount: number): void;
+  dcaSkipped?(orderSize: number, dcaLevel: number, timestamp: number): void;
+}
+
+/**
+ * One bot in a portfolio backtest. All legs draw from one shared pool.
+ */
+export interface PortfolioLeg {
+  symbol: string;
+  config: DcaConfig;
+  allocation: number; // Fraction of the pool the leg is measured against (leg returns, contribution)
+  maxDeployed?: number; // Optional cap on quote the leg may tie up at once
+}
+
+export interface PortfolioLegResult {
+  leg: PortfolioLeg;
+  results: BacktestResults;
+  contribution: number; // Quote PnL added to the pool
+  contributionPercent: number; // Of the pool's initial capital
+  missedDcaOrders: number;
+}
+
+/**
+ * A DCA order a leg could have funded on its own, but the pool was tied up by other legs
+ */
+export interface MissedDcaOrder {
+  timestamp: number;
+  legIndex: number;
+  symbol: string;
+  dcaLevel: number;
+  orderSize: number;
+  poolCash: number;
+}
+
+export interface PortfolioResults {
+  startTimestamp: number;
+  endTimestamp: number;
+  initialCapital: number;
+  finalValue: number;
+  totalReturn: number;
+  totalReturnPercent: number;
+  maxDrawdown: number;
+  maxCapitalDeployed: number;
+  legs: PortfolioLegResult[];
+  correlation: number[][]; // Pearson correlation of per-step leg returns, legs x legs
+  missedDcaOrders: MissedDcaOrder[];
+  equity: { timestamp: number; value: number }[];
+}
+
+/**
+ * Where candles come from. Every loaded series carries its source so the UI can show it.
+ */
+export type CandleSourceKind = 'COINGECKO' | 'FILE' | 'FIXTURE' | 'SYNTHETIC';
+
+export interface CandleSource {
+  kind: CandleSourceKind;
+  label: string;
+  load(symbol: string, start: Date, end: Date): Promise<Candle[]>;
+}
+
+export interface CandleIssue {
+  index: number; // Position in the series
+  message: string;
+}
+
+export interface CandleGap {
+  from: number; // Timestamp of the last candle before the gap
+  to: number; // Timestamp of the first candle after it
+  missing: number; // Candles expected in between
+}
+
+export interface CandleValidation {
+  intervalMs: number; // Median spacing
+  errors: CandleIssue[]; // Order, duplicates, OHLC consistency
+  gaps: CandleGap[];
+}
+
+export interface CandleSeries {
+  symbol: string;
+  source: { kind: CandleSourceKind; label: string };
+  candles: Candle[];
+  validation: CandleValidation;
+  resample?: ResampleInfo; // Set when the candles were aggregated to another timeframe
+}
+
+/**
+ * Candle timeframes the backtest can be evaluated at
+ */
+export type Timeframe = '5m' | '15m' | '1h' | '4h' | '1d';
+
+// What to do with buckets that have no source candles at all
+export type SparseBucketMode = 'FLAG' | 'FORWARD_FILL';
+
+export interface SparseBucket {
+  timestamp: number; // Bucket start
+  count: number; // Source candles in the bucket
+  expected: number; // Source candles a full bucket holds
+  filled: boolean; // Empty bucket replaced by a flat candle at the previous close
+}
+
+export interface ResampleInfo {
+  timeframe: Timeframe;
+  sourceIntervalMs: number;
+  sparseMode: SparseBucketMode;
+  sparse: SparseBucket[];
+}
+
+export interface HistoricalDataSource {
+  symbol: string;
+  timeframe: string;
+  startDate: Date;
+  endDate: Date;
+}
+
+/**
+ * Numeric DcaConfig fields that can be swept
+ */
+export type SweepParam = {
+  [K in keyof DcaConfig]-?: DcaConfig[K] extends number ? K : never;
+}[keyof DcaConfig];
+
+export interface SweepRange {
+  param: SweepParam;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export type SweepMetric = 'totalReturnPercent' | 'maxDrawdown' | 'winRate';
+
+export interface SweepResult {
+  config: DcaConfig;
+  totalReturnPercent: number;
+  maxDrawdown: number;
+  winRate: number;
+  roundsCompleted: number;
+  totalTrades: number;
+}
+
+export interface SweepHeatmap {
+  xParam: SweepParam;
+  yParam: SweepParam;
+  metric: SweepMetric;
+  xValues: number[];
+  yValues: number[];
+  cells: (SweepResult | null)[][]; // cells[y][x], best result for that pair
+}
+
+export interface WalkForwardOptions {
+  inSampleMs: number;
+  outOfSampleMs: number;
+  stepMs?: number; // Defaults to outOfSampleMs; shorter steps (overlapping OOS windows) are rejected
+  ranges: SweepRange[];
+  metric: SweepMetric;
+}
+
+export interface WalkForwardWindow {
+  index: number;
+  inSampleStart: number;
+  inSampleEnd: number;
+  outOfSampleStart: number;
+  outOfSampleEnd: number;
+  bestConfig: DcaConfig;
+  inSample: SweepResult;
+  outOfSample: SweepResult;
+  startValue: number;
+  endValue: number;
+}
+
+export interface WalkForwardResults {
+  options: WalkForwardOptions;
+  windows: WalkForwardWindow[];
+  initialCapital: number;
+  finalValue: number;
+  totalReturn: number;
+  totalReturnPercent: number;
+  maxDrawdown: number;
+  averageInSampleReturnPercent: number;
+  averageOutOfSampleReturnPercent: number;
+  walkForwardEfficiency: number; // OOS / IS average return, 1 = no degradation
+  equity: { timestamp: number; value: number }[];
+}
+
+export type PathModel = 'RANDOM_WALK' | 'GBM' | 'BOOTSTRAP';
+
+export interface MonteCarloOptions {
+  paths: number;
+  seed: number;
+  model: PathModel;
+  length: number; // Candles per path
+  startPrice: number;
+  volatility: number; // RANDOM_WALK: max move per candle, GBM: annualized
+  drift: number; // GBM only, annualized
+  blockSize: number; // BOOTSTRAP only, candles per block
+}
+
+export interface Percentiles {
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+  mean: number;
+}
+
+export interface MonteCarloResults {
+  config: DcaConfig;
+  options: MonteCarloOptions;
+  initialCapital: number;
+  finalValue: Percentiles;
+  totalReturnPercent: Percentiles;
+  maxDrawdown: Percentiles;
+  roundsCompleted: Percentiles;
+  probabilityOfLoss: number; // Share of paths ending below initial capital
+  probabilityOfCapitalExhaustion: number; // Share of paths that skipped a DCA level for lack of capital
+}
@@ -0,0 +1,125 @@
+import { DcaBacktester } from './DcaBacktester';
+import { runParameterSweep, bestSweepResult, summarizeResults } from './parameterSweep';
+import { calculateDrawdown, mean } from './metrics';
+import type {
+  DcaConfig,
+  Candle,
+  WalkForwardOptions,
+  WalkForwardWindow,
+  WalkForwardResults,
+} from './types';
+
+/**
+ * Walk-forward validation
+ * Optimizes the config on each in-sample window, then runs the winner on the
+ * out-of-sample window that follows it. Out-of-sample runs are chained so each
+ * one starts with the capital the previous one ended with.
+ */
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Rolling in-sample / out-of-sample windows over the candle time span
+ */
+export function buildWalkForwardWindows(
+  candles: Candle[],
+  options: WalkForwardOptions
+): { inSample: Candle[]; outOfSample: Candle[] }[] {
+  if (options.inSampleMs <= 0 || options.outOfSampleMs <= 0) {
+    throw new Error('Walk-forward windows must have a positive length');
+  }
+  const step = options.stepMs ?? options.outOfSampleMs;
+  // Chained capital would compound the overlapping candles' returns twice
+  if (step < options.outOfSampleMs) {
+    throw new Error('Walk-forward step must be at least the out-of-sample length (windows may not overlap)');
+  }
+  if (candles.length === 0) return [];
+
+  const first = candles[0]!.timestamp;
+  const last = candles[candles.length - 1]!.timestamp;
+
+  const windows: { inSample: Candle[]; outOfSample: Candle[] }[] = [];
+
+  for (let start = first; start + options.inSampleMs <= last; start += step) {
+    const split = start + options.inSampleMs;
+    const end = split + options.outOfSampleMs;
+
+    const inSample = candles.filter((c) => c.timestamp >= start && c.timestamp < split);
+    const outOfSample = candles.filter((c) => c.timestamp >= split && c.timestamp < end);
+
+    if (inSample.length > 0 && outOfSample.length > 0) {
+      windows.push({ inSample, outOfSample });
+    }
+  }
+
+  return windows;
+}
+
+/**
+ * Run the full walk-forward and stitch the out-of-sample equity curves
+ */
+export function runWalkForward(
+  baseConfig: DcaConfig,
+  candles: Candle[],
+  initialCapital: number,
+  options: WalkForwardOptions
+): WalkForwardResults {
+  const splits = buildWalkForwardWindows(candles, options);
+  if (splits.length === 0) {
+    throw new Error('Not enough data for a single in-sample + out-of-sample window');
+  }
+
+  const windows: WalkForwardWindow[] = [];
+  const equity: { timestamp: number; value: number }[] = [];
+  let capital = initialCapital;
+
+  splits.forEach(({ inSample, outOfSample }, index) => {
+    const sweep = runParameterSweep(baseConfig, options.ranges, inSample, initialCapital);
+    const best = bestSweepResult(sweep, options.metric);
+    if (!best) return;
+
+    const oosResults = new DcaBacktester(best.config, outOfSample, capital).run();
+
+    windows.push({
+      index: index + 1,
+      inSampleStart: inSample[0]!.timestamp,
+      inSampleEnd: inSample[inSample.length - 1]!.timestamp,
+      outOfSampleStart: outOfSample[0]!.timestamp,
+      outOfSampleEnd: outOfSample[outOfSample.length - 1]!.timestamp,
+      bestConfig: best.config,
+      inSample: best,
+      outOfSample: summarizeResults(oosResults),
+      startValue: capital,
+      endValue: oosResults.finalValue,
+    });
+
+    equity.push(...oosResults.equity);
+    capital = oosResults.finalValue;
+  });
+
+  const finalValue = capital;
+  const totalReturn = finalValue - initialCapital;
+
+  // Max drawdown over the stitched curve
+  const { maxDrawdown } = calculateDrawdown(equity, initialCapital);
+
+  const averageInSampleReturnPercent = mean(windows.map((w) => w.inSample.totalReturnPercent));
+  const averageOutOfSampleReturnPercent = mean(windows.map((w) => w.outOfSample.totalReturnPercent));
+
+  return {
+    options,
+    windows,
+    initialCapital,
+    finalValue,
+    totalReturn,
+    totalReturnPercent: (totalReturn / initialCapital) * 100,
+    maxDrawdown,
+    averageInSampleReturnPercent,
+    averageOutOfSampleReturnPercent,
+    walkForwardEfficiency:
+      averageInSampleReturnPercent !== 0
+        ? averageOutOfSampleReturnPercent / averageInSampleReturnPercent
+        : 0,
+    equity,
+  };
+}
@@ -0,0 +1,69 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Script, console} from "forge-std/Script.sol";
+import {Escrow} from "../src/Escrow.sol";
+import {EscrowFactory} from "../src/EscrowFactory.sol";
+import {MockChainlinkAggregator} from "../test/mocks/MockChainlinkAggregator.sol";
+import {MockERC20} from "../test/Escrow.t.sol"; // Reusing Mocks
+
+/**
+ * @title DeployLocal
+ * @notice Full local stack for the keeper: mock WETH/USDC, mock ETH/USD and
+ *         USDC/USD feeds, the factory, and one WETH ladder to arbitrage
+ * @dev Defaults to anvil's first account as deployer and ladder owner, and
+ *      funds anvil's second account (KEEPER_ADDRESS) with USDC. Raise the
+ *      ETH/USD answer with `cast send <feed> "updateAnswer(int256)" <price>`
+ *      to push rungs below market.
+ */
+contract DeployLocalScript is Script {
+    // anvil account #0, never use outside a local chain
+    uint256 internal constant ANVIL_DEPLOYER_KEY = 0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80;
+    address internal constant ANVIL_KEEPER = 0x70997970C51812dc3A010C7d01b50e0d17dc79C8;
+
+    function run() public {
+        uint256 deployerKey = vm.envOr("DEPLOYER_PRIVATE_KEY", ANVIL_DEPLOYER_KEY);
+        address deployer = vm.addr(deployerKey);
+        address keeper = vm.envOr("KEEPER_ADDRESS", ANVIL_KEEPER);
+
+        vm.startBroadcast(deployerKey);
+
+        MockERC20 weth = new MockERC20(18);
+        MockERC20 usdc = new MockERC20(6);
+
+        MockChainlinkAggregator ethUsd = new MockChainlinkAggregator(8, "ETH / USD");
+        MockChainlinkAggregator usdcUsd = new MockChainlinkAggregator(8, "USDC / USD");
+        ethUsd.updateAnswer(2000e8);
+        usdcUsd.updateAnswer(1e8);
+
+        EscrowFactory factory = new EscrowFactory(address(new Escrow()));
+
+        // 1 WETH base + 4 rungs of 1 WETH (+5% each), 1% apart from $2000
+        Escrow.Params memory params = Escrow.Params({
+            dcaOrdersSize: 5,
+            priceDeviationBPS: 100,
+            takeProfitBPS: 200,
+            priceMultiplierBPS: 11_000,
+            dcaOrderSizeMultiplierBPS: 500,
+            baseOrderAmount: 1 ether,
+            dcaOrderAmount: 1 ether
+        });
+
+        weth.mint(deployer, 100 ether);
+        usdc.mint(keeper, 100_000e6);
+
+        // initialize() pulls the ladder from the owner, so approve the clone before it exists
+        address predicted = computeCreateAddress(address(factory), vm.getNonce(address(factory)));
+        weth.approve(predicted, type(uint256).max);
+        Escrow escrow = factory.createEscrow(params, address(weth), address(usdc), address(ethUsd), address(usdcUsd));
+
+        vm.stopBroadcast();
+
+        console.log("WETH:", address(weth));
+        console.log("USDC:", address(usdc));
+        console.log("ETH/USD feed:", address(ethUsd));
+        console.log("USDC/USD feed:", address(usdcUsd));
+        console.log("EscrowFactory:", address(factory));
+        console.log("Escrow:", address(escrow));
+    }
+}
@@ -0,0 +1,26 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Script, console} from "forge-std/Script.sol";
+import {MockChainlinkAggregator} from "../test/mocks/MockChainlinkAggregator.sol";
+
+/**
+ * @title DeployMockFeed
+ * @notice Deploys a controllable price feed for paper trading on a local devnet
+ * @dev Defaults to an 8-decimal BTC/USD feed at $60,000. Override with
+ *      FEED_DESCRIPTION and FEED_PRICE (already scaled by 1e8), then move the
+ *      price with `cast send <feed> "updateAnswer(int256)" <price>`.
+ */
+contract DeployMockFeedScript is Script {
+    function run() public returns (MockChainlinkAggregator feed) {
+        string memory description = vm.envOr("FEED_DESCRIPTION", string("BTC / USD"));
+        int256 price = vm.envOr("FEED_PRICE", int256(60_000e8));
+
+        vm.startBroadcast();
+        feed = new MockChainlinkAggregator(8, description);
+        feed.updateAnswer(price);
+        vm.stopBroadcast();
+
+        console.log("Mock feed:", address(feed));
+    }
+}
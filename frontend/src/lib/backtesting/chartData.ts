@@ -0,0 +1,252 @@
+import type { DcaConfig, RoundResult } from 'autodca-backtesting/types';
+
+/**
+ * Data shaping for the backtest charts. Everything here works on the visible
+ * window only, so a year of hourly candles costs no more to draw than a week.
+ */
+
+export interface Viewport {
+  start: number; // Timestamps, ms
+  end: number;
+}
+
+export interface EquityPoint {
+  timestamp: number;
+  value: number;
+}
+
+export interface PeakedPoint extends EquityPoint {
+  peak: number; // Running equity high up to this point
+}
+
+export interface LevelSegment {
+  start: number;
+  end: number;
+  price: number;
+}
+
+export interface RoundLevels {
+  roundNumber: number;
+  average: LevelSegment[]; // Average entry after each fill
+  takeProfit: LevelSegment[]; // Take-profit (or trailing arm) level derived from it
+}
+
+// Never zoom in past this many points
+const MIN_VISIBLE_POINTS = 10;
+
+/**
+ * Index of the first item at or after `timestamp` in a sorted series
+ */
+export function lowerBound(items: { timestamp: number }[], timestamp: number): number {
+  let lo = 0;
+  let hi = items.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (items[mid]!.timestamp < timestamp) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Items inside the viewport plus one neighbour on each side, so lines run to the edges
+ */
+export function sliceVisible<T extends { timestamp: number }>(items: T[], viewport: Viewport): T[] {
+  const from = Math.max(0, lowerBound(items, viewport.start) - 1);
+  const to = Math.min(items.length, lowerBound(items, viewport.end) + 1);
+  return items.slice(from, to);
+}
+
+export function seriesBounds(items: { timestamp: number }[]): Viewport {
+  const first = items[0]?.timestamp ?? 0;
+  const last = items[items.length - 1]?.timestamp ?? first;
+  return { start: first, end: Math.max(last, first + 1) };
+}
+
+/**
+ * Narrowest window worth showing: a handful of the series' own intervals
+ */
+export function minSpan(items: { timestamp: number }[]): number {
+  const bounds = seriesBounds(items);
+  const step = items.length > 1 ? (bounds.end - bounds.start) / (items.length - 1) : 1;
+  return Math.min(step * MIN_VISIBLE_POINTS, bounds.end - bounds.start);
+}
+
+/**
+ * Zoom around `anchor` (0 = left edge, 1 = right edge); factor > 1 zooms out
+ */
+export function zoomViewport(
+  viewport: Viewport,
+  bounds: Viewport,
+  anchor: number,
+  factor: number,
+  min: number
+): Viewport {
+  const full = bounds.end - bounds.start;
+  const span = Math.min(full, Math.max(min, (viewport.end - viewport.start) * factor));
+  const pivot = viewport.start + (viewport.end - viewport.start) * anchor;
+  return clampViewport({ start: pivot - span * anchor, end: pivot + span * (1 - anchor) }, bounds);
+}
+
+export function panViewport(viewport: Viewport, bounds: Viewport, deltaMs: number): Viewport {
+  return clampViewport({ start: viewport.start + deltaMs, end: viewport.end + deltaMs }, bounds);
+}
+
+/**
+ * Window around a round, with some context on each side
+ */
+export function roundViewport(round: RoundResult, bounds: Viewport, min: number): Viewport {
+  const duration = round.endTimestamp - round.startTimestamp;
+  const span = Math.max(min, duration * 1.5);
+  const center = (round.startTimestamp + round.endTimestamp) / 2;
+  return clampViewport({ start: center - span / 2, end: center + span / 2 }, bounds);
+}
+
+function clampViewport(viewport: Viewport, bounds: Viewport): Viewport {
+  const span = Math.min(viewport.end - viewport.start, bounds.end - bounds.start);
+  const start = Math.min(Math.max(viewport.start, bounds.start), bounds.end - span);
+  return { start, end: start + span };
+}
+
+/**
+ * Tag every point with the running high, for drawdown shading
+ */
+export function withPeaks(points: EquityPoint[]): PeakedPoint[] {
+  let peak = -Infinity;
+  return points.map((p) => {
+    peak = Math.max(peak, p.value);
+    return { ...p, peak };
+  });
+}
+
+/**
+ * Keep the lowest and highest point of each time bucket. Dips and spikes
+ * survive at any zoom, unlike taking every nth point.
+ */
+export function downsampleMinMax<T extends EquityPoint>(points: T[], viewport: Viewport, columns: number): T[] {
+  if (points.length <= columns * 2) return points;
+
+  const bucketMs = (viewport.end - viewport.start) / columns;
+  const out: T[] = [];
+  let bucket = NaN;
+  let low: T | undefined;
+  let high: T | undefined;
+
+  const flush = () => {
+    if (!low || !high) return;
+    if (low === high) out.push(low);
+    else if (low.timestamp < high.timestamp) out.push(low, high);
+    else out.push(high, low);
+  };
+
+  for (const p of points) {
+    const b = Math.floor((p.timestamp - viewport.start) / bucketMs);
+    if (b !== bucket) {
+      flush();
+      bucket = b;
+      low = high = p;
+    } else {
+      if (p.value < low!.value) low = p;
+      if (p.value > high!.value) high = p;
+    }
+  }
+  flush();
+  return out;
+}
+
+/**
+ * Average entry and take-profit levels over a round, stepping at each fill.
+ * Take-profit is left empty without a DCA config (escrow ladder runs).
+ */
+export function roundLevels(round: RoundResult, config: DcaConfig | null): RoundLevels {
+  const fills = round.entries.filter((e) => e.type === 'BASE' || e.type === 'DCA');
+  const average: LevelSegment[] = [];
+
+  let quantity = 0;
+  let basis = 0;
+  fills.forEach((fill, i) => {
+    quantity += fill.quantity;
+    // Mirrors the engine: BUY averages the cost basis, SELL the quote received
+    basis += config?.side === 'SELL' ? fill.price * fill.quantity : fill.cost;
+    average.push({
+      start: fill.timestamp,
+      end: fills[i + 1]?.timestamp ?? round.endTimestamp,
+      price: quantity > 0 ? basis / quantity : fill.price,
+    });
+  });
+
+  const tpBps = config ? config.trailingArmBps || config.takeProfitBps : 0;
+  const direction = config?.side === 'SELL' ? -1 : 1;
+  const takeProfit = tpBps > 0
+    ? average.map((s) => ({ ...s, price: s.price * (1 + (direction * tpBps) / 10000) }))
+    : [];
+
+  return { roundNumber: round.roundNumber, average, takeProfit };
+}
+
+export interface ZoomPanOptions {
+  view: Viewport;
+  bounds: Viewport;
+  min: number;
+  onChange: (viewport: Viewport | null) => void; // null = reset to the full range
+}
+
+/**
+ * Svelte action for a chart element: wheel zooms, drag pans, double-click resets
+ */
+export function zoomPan(node: HTMLElement | SVGElement, initial: ZoomPanOptions) {
+  let options = initial;
+  let drag: { x: number; view: Viewport } | null = null;
+
+  const fraction = (clientX: number) => {
+    const rect = node.getBoundingClientRect();
+    return (clientX - rect.left) / (rect.width || 1);
+  };
+
+  const onWheel = (event: WheelEvent) => {
+    event.preventDefault();
+    const factor = event.deltaY > 0 ? 1.25 : 0.8;
+    options.onChange(zoomViewport(options.view, options.bounds, fraction(event.clientX), factor, options.min));
+  };
+
+  const onPointerDown = (event: PointerEvent) => {
+    drag = { x: event.clientX, view: options.view };
+    node.setPointerCapture(event.pointerId);
+    node.classList.add('dragging');
+  };
+
+  const onPointerMove = (event: PointerEvent) => {
+    if (!drag) return;
+    const rect = node.getBoundingClientRect();
+    const deltaMs = (-(event.clientX - drag.x) / (rect.width || 1)) * (drag.view.end - drag.view.start);
+    options.onChange(panViewport(drag.view, options.bounds, deltaMs));
+  };
+
+  const onPointerUp = () => {
+    drag = null;
+    node.classList.remove('dragging');
+  };
+
+  const onDblClick = () => options.onChange(null);
+
+  const listeners: [string, (event: any) => void][] = [
+    ['wheel', onWheel],
+    ['pointerdown', onPointerDown],
+    ['pointermove', onPointerMove],
+    ['pointerup', onPointerUp],
+    ['pointercancel', onPointerUp],
+    ['dblclick', onDblClick],
+  ];
+  for (const [type, listener] of listeners) {
+    node.addEventListener(type, listener, { passive: type !== 'wheel' });
+  }
+
+  return {
+    update(next: ZoomPanOptions) {
+      options = next;
+    },
+    destroy() {
+      for (const [type, listener] of listeners) node.removeEventListener(type, listener);
+    },
+  };
+}
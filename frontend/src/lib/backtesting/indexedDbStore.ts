@@ -0,0 +1,57 @@
+import type { CandleStore, CachedSeriesRecord } from 'autodca-backtesting/candleCache';
+
+/**
+ * Browser storage for the candle cache
+ */
+
+const DB_NAME = 'superdca-candles';
+const DB_VERSION = 1;
+const STORE = 'series';
+
+export function createIndexedDbStore(): CandleStore {
+  return {
+    get: (key) => request<CachedSeriesRecord | undefined>('readonly', (store) => store.get(key)),
+    put: async (record) => {
+      await request('readwrite', (store) => store.put(record));
+    },
+    list: () => request<CachedSeriesRecord[]>('readonly', (store) => store.getAll()),
+    delete: async (key) => {
+      await request('readwrite', (store) => store.delete(key));
+    },
+    clear: async () => {
+      await request('readwrite', (store) => store.clear());
+    },
+  };
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+
+  dbPromise ??= new Promise((resolve, reject) => {
+    const open = indexedDB.open(DB_NAME, DB_VERSION);
+    open.onupgradeneeded = () => open.result.createObjectStore(STORE, { keyPath: 'key' });
+    open.onsuccess = () => resolve(open.result);
+    open.onerror = () => {
+      dbPromise = null;
+      reject(open.error);
+    };
+  });
+  return dbPromise;
+}
+
+async function request<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDb();
+
+  return new Promise((resolve, reject) => {
+    const req = run(db.transaction(STORE, mode).objectStore(STORE));
+    req.onsuccess = () => resolve(req.result as T);
+    req.onerror = () => reject(req.error);
+  });
+}
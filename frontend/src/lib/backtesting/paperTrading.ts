@@ -0,0 +1,196 @@
+import { createPublicClient, http, parseAbi, type Address } from 'viem';
+import { DcaEngine, type EngineState, type EngineStep } from 'autodca-backtesting/DcaEngine';
+import { buildDcaResults } from 'autodca-backtesting/DcaBacktester';
+import type { BacktestResults, Candle, DcaConfig, OrderIntent, RoundResult } from 'autodca-backtesting/types';
+import { CHAIN_CONFIG, CHAINLINK_AGGREGATOR_ABI, CONTRACT_ADDRESSES } from '../contracts';
+import type { EquityPoint } from './chartData';
+
+/**
+ * Paper trading
+ * Forward-tests a DCA config on live Chainlink prices: each new oracle round is
+ * one tick for the streaming engine, with virtual cash and positions. The whole
+ * session lives in localStorage so it survives reloads.
+ */
+
+export interface PaperFeed {
+  label: string; // e.g. BTC/USD
+  rpcUrl: string;
+  address: Address;
+}
+
+export type PaperFeedPreset = 'BTC/USD' | 'ETH/USD' | 'CUSTOM';
+
+export const PAPER_FEEDS: Record<Exclude<PaperFeedPreset, 'CUSTOM'>, PaperFeed> = {
+  'BTC/USD': { label: 'BTC/USD', rpcUrl: CHAIN_CONFIG.rpcUrls.default, address: CONTRACT_ADDRESSES.chainlink.btcUsd as Address },
+  'ETH/USD': { label: 'ETH/USD', rpcUrl: CHAIN_CONFIG.rpcUrls.default, address: CONTRACT_ADDRESSES.chainlink.ethUsd as Address },
+};
+
+// Local devnet default, e.g. anvil with contracts/script/DeployMockFeed.s.sol
+export const DEVNET_RPC_URL = 'http://127.0.0.1:8545';
+
+export const PAPER_SESSION_VERSION = 1;
+
+const STORAGE_KEY = 'autodca-paper-session';
+
+// Fills kept for the activity log; rounds and equity are kept in full
+const MAX_LOGGED_INTENTS = 200;
+
+export interface OracleReading {
+  roundId: string; // uint80, as a decimal string so it survives JSON
+  price: number;
+  updatedAt: number; // ms
+}
+
+export interface PaperSession {
+  version: number;
+  feed: PaperFeed;
+  initialCapital: number;
+  benchmarkDcaIntervalHours: number;
+  pollSeconds: number;
+  running: boolean;
+  startedAt: number;
+  engine: EngineState;
+  rounds: RoundResult[]; // Closed rounds
+  equity: EquityPoint[];
+  prices: Candle[]; // One flat candle per oracle round applied
+  intents: OrderIntent[]; // Most recent fills, oldest first
+  lastReading: OracleReading | null;
+  lastPolledAt: number | null;
+}
+
+export function createPaperSession(
+  feed: PaperFeed,
+  config: DcaConfig,
+  initialCapital: number,
+  options: { pollSeconds: number; benchmarkDcaIntervalHours: number }
+): PaperSession {
+  return {
+    version: PAPER_SESSION_VERSION,
+    feed,
+    initialCapital,
+    benchmarkDcaIntervalHours: options.benchmarkDcaIntervalHours,
+    pollSeconds: options.pollSeconds,
+    running: true,
+    startedAt: Date.now(),
+    engine: new DcaEngine(config, initialCapital).serialize(),
+    rounds: [],
+    equity: [],
+    prices: [],
+    intents: [],
+    lastReading: null,
+    lastPolledAt: null,
+  };
+}
+
+/**
+ * Latest answer of an aggregator, scaled by its decimals
+ */
+export async function readFeedPrice(feed: PaperFeed): Promise<OracleReading> {
+  const client = createPublicClient({ transport: http(feed.rpcUrl) });
+  const abi = parseAbi(CHAINLINK_AGGREGATOR_ABI);
+
+  const [decimals, [roundId, answer, , updatedAt]] = await Promise.all([
+    client.readContract({ address: feed.address, abi, functionName: 'decimals' }),
+    client.readContract({ address: feed.address, abi, functionName: 'latestRoundData' }),
+  ]);
+
+  if (answer <= 0n) {
+    throw new Error(`${feed.label} feed answered ${answer}`);
+  }
+  if (updatedAt === 0n) {
+    throw new Error(`${feed.label} feed has no completed round`);
+  }
+
+  return {
+    roundId: roundId.toString(),
+    price: Number(answer) / 10 ** decimals,
+    updatedAt: Number(updatedAt) * 1000,
+  };
+}
+
+/**
+ * Feed one oracle reading to the session. Readings from a round that was
+ * already applied are ignored (step is null), so polling faster than the feed
+ * updates doesn't repeat ticks.
+ */
+export function applyReading(
+  session: PaperSession,
+  reading: OracleReading,
+  polledAt = Date.now()
+): { session: PaperSession; step: EngineStep | null } {
+  const last = session.lastReading;
+  if (last && (reading.roundId === last.roundId || reading.updatedAt <= last.updatedAt)) {
+    return { session: { ...session, lastPolledAt: polledAt }, step: null };
+  }
+
+  const engine = DcaEngine.restore(session.engine);
+  const step = engine.onPrice(reading.price, reading.updatedAt);
+
+  return {
+    session: {
+      ...session,
+      engine: engine.serialize(),
+      rounds: [...session.rounds, ...step.closedRounds],
+      equity: [...session.equity, { timestamp: reading.updatedAt, value: step.snapshot.equity }],
+      prices: [
+        ...session.prices,
+        {
+          timestamp: reading.updatedAt,
+          open: reading.price,
+          high: reading.price,
+          low: reading.price,
+          close: reading.price,
+          volume: 0,
+        },
+      ],
+      intents: [...session.intents, ...step.intents].slice(-MAX_LOGGED_INTENTS),
+      lastReading: reading,
+      lastPolledAt: polledAt,
+    },
+    step,
+  };
+}
+
+/**
+ * Results in the backtest shape. The open round stays open: it shows up in
+ * equity, not in the closed-round stats.
+ */
+export function paperResults(session: PaperSession): BacktestResults {
+  return buildDcaResults({
+    config: session.engine.config,
+    candles: session.prices,
+    rounds: session.rounds,
+    equity: session.equity,
+    stats: session.engine.stats,
+    benchmarkDcaIntervalHours: session.benchmarkDcaIntervalHours,
+  });
+}
+
+/**
+ * Where the session stands right now, open round included
+ */
+export function paperSnapshot(session: PaperSession) {
+  return DcaEngine.restore(session.engine).snapshot();
+}
+
+export function saveSession(session: PaperSession): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+}
+
+/**
+ * Null when nothing is saved; throws when the saved session can't be resumed
+ */
+export function loadSession(): PaperSession | null {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (raw === null) return null;
+
+  const session = JSON.parse(raw) as PaperSession;
+  if (session.version !== PAPER_SESSION_VERSION) {
+    throw new Error(`Unsupported paper session version ${session.version}`);
+  }
+  return session;
+}
+
+export function clearSession(): void {
+  localStorage.removeItem(STORAGE_KEY);
+}
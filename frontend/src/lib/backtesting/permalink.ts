@@ -0,0 +1,96 @@
+import type { DcaConfig, CandleSourceKind, Timeframe, SparseBucketMode } from 'autodca-backtesting/types';
+import { TIMEFRAMES } from 'autodca-backtesting/resample';
+
+/**
+ * Shareable run links
+ * The query string pins everything needed to repeat a DCA bot run: config, symbol,
+ * absolute date range and data source. Imported files can't travel in a URL.
+ */
+
+export interface RunLink {
+  config: DcaConfig;
+  symbol: string;
+  start: number;
+  end: number;
+  source: Exclude<CandleSourceKind, 'FILE'>;
+  initialCapital: number;
+  seed?: number; // SYNTHETIC only
+  timeframe?: Timeframe;
+  sparseMode?: SparseBucketMode;
+}
+
+const SOURCES: RunLink['source'][] = ['COINGECKO', 'FIXTURE', 'SYNTHETIC'];
+
+export function encodeRunLink(link: RunLink): string {
+  const params = new URLSearchParams({
+    symbol: link.symbol,
+    start: new Date(link.start).toISOString(),
+    end: new Date(link.end).toISOString(),
+    source: link.source,
+    capital: String(link.initialCapital),
+    config: toBase64Url(JSON.stringify(link.config)),
+  });
+
+  if (link.source === 'SYNTHETIC' && link.seed !== undefined) params.set('seed', String(link.seed));
+  if (link.timeframe) params.set('timeframe', link.timeframe);
+  if (link.sparseMode) params.set('sparse', link.sparseMode);
+
+  return params.toString();
+}
+
+/**
+ * Null when the URL has no run in it; throws when it has a broken one
+ */
+export function decodeRunLink(params: URLSearchParams): RunLink | null {
+  const encodedConfig = params.get('config');
+  if (encodedConfig === null) return null;
+
+  const source = params.get('source') as RunLink['source'];
+  if (!SOURCES.includes(source)) {
+    throw new Error(`Unknown data source in link: ${source}`);
+  }
+
+  const start = Date.parse(params.get('start') ?? '');
+  const end = Date.parse(params.get('end') ?? '');
+  if (Number.isNaN(start) || Number.isNaN(end) || end <= start) {
+    throw new Error('Link has no valid date range');
+  }
+
+  let config: DcaConfig;
+  try {
+    config = JSON.parse(fromBase64Url(encodedConfig));
+  } catch {
+    throw new Error('Link config is corrupted');
+  }
+
+  const timeframe = params.get('timeframe');
+  if (timeframe !== null && !(timeframe in TIMEFRAMES)) {
+    throw new Error(`Unknown timeframe in link: ${timeframe}`);
+  }
+
+  const seed = params.get('seed');
+  return {
+    config,
+    symbol: params.get('symbol') ?? 'BTC/USDC',
+    start,
+    end,
+    source,
+    initialCapital: Number(params.get('capital') ?? 10000),
+    seed: seed !== null ? Number(seed) : undefined,
+    timeframe: (timeframe as Timeframe | null) ?? undefined,
+    sparseMode: params.get('sparse') === 'FORWARD_FILL' ? 'FORWARD_FILL' : undefined,
+  };
+}
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+}
@@ -171,6 +171,14 @@ export const SUPPORTED_ASSETS: Record<string, AssetConfig> = {
   },
 };
 
+// ============================================================================
+// INDEXER
+// ============================================================================
+
+// HTTP API of keep's escrow indexer (bun run indexer), e.g. 'http://127.0.0.1:8788'.
+// Empty: escrows are found by scanning EscrowCreated logs over RPC.
+export const INDEXER_URL = '';
+
 // ============================================================================
 // CONSTANTS
 // ============================================================================
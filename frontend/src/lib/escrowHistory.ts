@@ -0,0 +1,211 @@
+/**
+ * Trade history of one escrow, split into ladder cycles
+ * A cycle runs from a fresh ladder through the buy() calls that fill it to the
+ * sell() that rebuys asset0 and resets it. Profit is realized at that sell().
+ */
+
+import { parseAbiItem, type Address, type PublicClient } from 'viem';
+import { CONSTANTS } from './contracts';
+import { fetchIndexerHealth, fetchTrades, indexerEnabled } from './indexer';
+import { TradeType, type EscrowHistoryEntry, type Trade } from './types';
+import { calculateRebuyProfit } from './utils';
+import type { EquityPoint } from './backtesting/chartData';
+
+export interface LadderCycle {
+  index: number; // 1-based
+  startedAt: number; // First trade, unix seconds
+  endedAt: number | null; // The resetting sell(); null while the ladder is still open
+  buys: number;
+  sold0: bigint; // asset0 bought off the ladder
+  received1: bigint; // asset1 paid for it
+  averageSellPrice: bigint; // 1e8, 0 when nothing sold
+  rebought0: bigint; // asset0 taken back by the closing sell()
+  paid1: bigint; // asset1 paid out for it
+  rebuyPrice: bigint | null; // 1e8
+  profit1: bigint | null; // Realized, in asset1
+  profitPercent: number | null;
+  rebuyTxHash: string | null;
+}
+
+const TRADE_EVENTS = [
+  parseAbiItem('event Buy(address indexed buyer, uint256 amount1In, uint256 amount0Out)'),
+  parseAbiItem('event Sell(address indexed seller, uint256 amount0In, uint256 amount1Out)'),
+] as const;
+
+const TRADES_PAGE = 1000;
+
+/**
+ * All Buy/Sell trades of an escrow, oldest first: from the indexer when one is
+ * configured (plus the blocks after its checkpoint over RPC), else a log scan
+ */
+export async function loadEscrowTrades(publicClient: PublicClient, escrow: Address): Promise<Trade[]> {
+  let indexed: Trade[] = [];
+  let fromBlock: bigint | 'earliest' = 'earliest';
+
+  if (indexerEnabled()) {
+    try {
+      const health = await fetchIndexerHealth();
+      if (health.checkpoint !== null) {
+        // Pages are cut at a block boundary: the oldest block of a full page is fetched again whole
+        let before: number | undefined;
+        for (;;) {
+          const page = await fetchTrades(escrow, { limit: TRADES_PAGE, before });
+          const oldest = page[page.length - 1]?.blockNumber;
+          const whole = page.filter((t) => t.blockNumber !== oldest);
+          if (page.length < TRADES_PAGE || oldest === undefined || whole.length === 0) {
+            indexed.push(...page);
+            break;
+          }
+          indexed.push(...whole);
+          before = oldest + 1;
+        }
+        fromBlock = BigInt(health.checkpoint + 1);
+      }
+    } catch (e) {
+      console.warn('Indexer unavailable, scanning logs instead:', e);
+      indexed = [];
+    }
+  }
+
+  const logs = await publicClient.getLogs({ address: escrow, events: TRADE_EVENTS, fromBlock });
+  const timestamps = new Map<bigint, number>();
+  for (const blockNumber of new Set(logs.map((log) => log.blockNumber))) {
+    const block = await publicClient.getBlock({ blockNumber });
+    timestamps.set(blockNumber, Number(block.timestamp));
+  }
+
+  const scanned: Trade[] = logs.map((log) => {
+    const isBuy = log.eventName === 'Buy';
+    const args = log.args as Record<string, any>;
+    return {
+      type: isBuy ? TradeType.BUY : TradeType.SELL,
+      escrowAddress: escrow,
+      trader: isBuy ? args.buyer : args.seller,
+      asset0Amount: isBuy ? args.amount0Out : args.amount0In,
+      asset1Amount: isBuy ? args.amount1In : args.amount1Out,
+      timestamp: timestamps.get(log.blockNumber) ?? 0,
+      txHash: log.transactionHash,
+      blockNumber: Number(log.blockNumber),
+    };
+  });
+
+  // The indexer answers newest first and logs come oldest first
+  return [...indexed.reverse(), ...scanned];
+}
+
+/**
+ * Trades as history rows, with the execution price in asset1 per asset0 (1e8).
+ * Every sell() that pays out resets the ladder, so it is followed by a RESET row.
+ * Expects trades oldest first, as loadEscrowTrades returns them.
+ */
+export function tradesToHistory(trades: Trade[], asset0Decimals: number, asset1Decimals: number): EscrowHistoryEntry[] {
+  return trades.flatMap((trade) => {
+    const entry: EscrowHistoryEntry = {
+      timestamp: trade.timestamp,
+      blockNumber: trade.blockNumber,
+      type: trade.type,
+      asset0Amount: trade.asset0Amount,
+      asset1Amount: trade.asset1Amount,
+      price: priceOf(trade.asset0Amount, trade.asset1Amount, asset0Decimals, asset1Decimals),
+      txHash: trade.txHash,
+    };
+    if (trade.type !== TradeType.SELL || trade.asset1Amount === 0n) return [entry];
+    return [entry, { ...entry, type: 'RESET' as const, asset0Amount: 0n, asset1Amount: 0n }];
+  });
+}
+
+/**
+ * Splits history rows at each RESET. The last cycle is open unless the history ends on a reset.
+ */
+export function splitCycles(history: EscrowHistoryEntry[], asset0Decimals: number, asset1Decimals: number): LadderCycle[] {
+  const cycles: LadderCycle[] = [];
+  let current: LadderCycle | null = null;
+
+  for (const entry of history) {
+    if (entry.type === 'RESET') {
+      if (current) close(current, entry, asset0Decimals, asset1Decimals);
+      current = null;
+      continue;
+    }
+
+    if (!current) {
+      current = openCycle(cycles.length + 1, entry.timestamp);
+      cycles.push(current);
+    }
+
+    if (entry.type === 'BUY') {
+      current.buys++;
+      current.sold0 += entry.asset0Amount;
+      current.received1 += entry.asset1Amount;
+      current.averageSellPrice = priceOf(current.sold0, current.received1, asset0Decimals, asset1Decimals);
+    } else {
+      // The resetting sell(); a sell() that paid nothing leaves the ladder as is
+      current.rebought0 += entry.asset0Amount;
+      current.paid1 += entry.asset1Amount;
+      current.rebuyTxHash = entry.txHash;
+    }
+  }
+  return cycles;
+}
+
+/**
+ * Cumulative realized profit in asset1 (human units), one point per closed cycle
+ */
+export function cumulativePnl(cycles: LadderCycle[], asset1Decimals: number): EquityPoint[] {
+  if (cycles.length === 0) return [];
+  const scale = 10 ** asset1Decimals;
+  const points: EquityPoint[] = [{ timestamp: cycles[0]!.startedAt * 1000, value: 0 }];
+  let total = 0n;
+
+  for (const cycle of cycles) {
+    if (cycle.endedAt === null || cycle.profit1 === null) continue;
+    total += cycle.profit1;
+    points.push({ timestamp: cycle.endedAt * 1000, value: Number(total) / scale });
+  }
+  return points;
+}
+
+function openCycle(index: number, startedAt: number): LadderCycle {
+  return {
+    index,
+    startedAt,
+    endedAt: null,
+    buys: 0,
+    sold0: 0n,
+    received1: 0n,
+    averageSellPrice: 0n,
+    rebought0: 0n,
+    paid1: 0n,
+    rebuyPrice: null,
+    profit1: null,
+    profitPercent: null,
+    rebuyTxHash: null,
+  };
+}
+
+function close(cycle: LadderCycle, reset: EscrowHistoryEntry, asset0Decimals: number, asset1Decimals: number) {
+  cycle.endedAt = reset.timestamp;
+  cycle.rebuyPrice = priceOf(cycle.rebought0, cycle.paid1, asset0Decimals, asset1Decimals);
+  if (cycle.averageSellPrice === 0n) {
+    cycle.profit1 = 0n;
+    cycle.profitPercent = 0;
+    return;
+  }
+
+  // Realized on what was both sold and bought back
+  const realized = cycle.rebought0 < cycle.sold0 ? cycle.rebought0 : cycle.sold0;
+  const { profitAmount, profitPercent } = calculateRebuyProfit(
+    realized,
+    cycle.averageSellPrice,
+    cycle.rebuyPrice,
+    asset0Decimals,
+  );
+  // profitAmount is asset0 units times a price, i.e. asset1 at asset0's decimals
+  cycle.profit1 = (profitAmount * 10n ** BigInt(asset1Decimals)) / 10n ** BigInt(asset0Decimals);
+  cycle.profitPercent = profitPercent;
+}
+
+function priceOf(amount0: bigint, amount1: bigint, asset0Decimals: number, asset1Decimals: number): bigint {
+  if (amount0 === 0n) return 0n;
+  return (amount1 * 10n ** BigInt(asset0Decimals) * BigInt(CONSTANTS.PRICE_SCALE)) / (amount0 * 10n ** BigInt(asset1Decimals));
+}
@@ -0,0 +1,116 @@
+/**
+ * Client for keep's escrow indexer (keep/src/indexer), which serves
+ * EscrowCreated / Buy / Sell logs from SQLite instead of RPC log scans.
+ * The API sends amounts and block numbers as decimal strings.
+ */
+
+import { getAddress, type Address } from 'viem';
+import { INDEXER_URL } from './contracts';
+import { TradeType, type Trade } from './types';
+
+export interface IndexedEscrow {
+  address: Address;
+  owner: Address;
+  asset0: Address;
+  asset1: Address;
+  blockNumber: number;
+  txHash: string;
+  createdAt: number;
+}
+
+export interface EscrowVolume {
+  buys: number;
+  sells: number;
+  bought0: bigint;
+  paid1: bigint;
+  sold0: bigint;
+  received1: bigint;
+  firstTradeAt: number | null;
+  lastTradeAt: number | null;
+}
+
+export interface IndexerHealth {
+  checkpoint: number | null; // Last indexed block; later blocks still need RPC
+  head: number | null;
+  error: string | null;
+}
+
+export function indexerEnabled(): boolean {
+  return INDEXER_URL !== '';
+}
+
+async function get<T>(path: string): Promise<T> {
+  const response = await fetch(`${INDEXER_URL.replace(/\/$/, '')}${path}`);
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(`Indexer: ${body?.error ?? `HTTP ${response.status}`}`);
+  }
+  return response.json();
+}
+
+// The indexer lowercases addresses; checksum them like the rest of the app
+const toEscrow = (raw: any): IndexedEscrow => ({
+  address: getAddress(raw.address),
+  owner: getAddress(raw.owner),
+  asset0: getAddress(raw.asset0),
+  asset1: getAddress(raw.asset1),
+  blockNumber: Number(raw.blockNumber),
+  txHash: raw.txHash,
+  createdAt: raw.createdAt,
+});
+
+export async function fetchIndexerHealth(): Promise<IndexerHealth> {
+  const raw = await get<any>('/health');
+  return {
+    checkpoint: raw.checkpoint !== null ? Number(raw.checkpoint) : null,
+    head: raw.head !== null ? Number(raw.head) : null,
+    error: raw.error,
+  };
+}
+
+export async function fetchEscrowsByOwner(owner: Address): Promise<IndexedEscrow[]> {
+  return (await get<any[]>(`/escrows?owner=${owner}`)).map(toEscrow);
+}
+
+export async function fetchEscrowsByPair(asset0: Address, asset1: Address): Promise<IndexedEscrow[]> {
+  return (await get<any[]>(`/escrows?asset0=${asset0}&asset1=${asset1}`)).map(toEscrow);
+}
+
+/**
+ * Newest first; pass the oldest blockNumber seen as `before` for the next page
+ */
+export async function fetchTrades(
+  escrow: Address,
+  options: { limit?: number; before?: number } = {}
+): Promise<Trade[]> {
+  const query = new URLSearchParams();
+  if (options.limit !== undefined) query.set('limit', String(options.limit));
+  if (options.before !== undefined) query.set('before', String(options.before));
+  const raw = await get<any[]>(`/escrows/${escrow}/trades?${query}`);
+
+  return raw.map((t) => ({
+    type: t.kind === 'BUY' ? TradeType.BUY : TradeType.SELL,
+    escrowAddress: getAddress(t.escrow),
+    trader: getAddress(t.trader),
+    asset0Amount: BigInt(t.amount0),
+    asset1Amount: BigInt(t.amount1),
+    timestamp: t.timestamp,
+    txHash: t.txHash,
+    blockNumber: Number(t.blockNumber),
+  }));
+}
+
+export async function fetchVolume(escrow: Address): Promise<EscrowVolume> {
+  const raw = await get<any>(`/escrows/${escrow}/volume`);
+  return {
+    buys: raw.buys,
+    sells: raw.sells,
+    bought0: BigInt(raw.bought0),
+    paid1: BigInt(raw.paid1),
+    sold0: BigInt(raw.sold0),
+    received1: BigInt(raw.received1),
+    firstTradeAt: raw.firstTradeAt,
+    lastTradeAt: raw.lastTradeAt,
+  };
+}
+
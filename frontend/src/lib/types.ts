@@ -8,22 +8,10 @@
 // ============================================================================
 
 import type { Address, PublicClient, WalletClient } from 'viem';
+import type { EscrowParams, SellOrder } from 'autodca-backtesting/types';
 
-export interface EscrowParams {
-  dcaOrdersSize: number;                // Ladder depth (e.g., 10)
-  priceDeviationBPS: number;            // Step size in basis points (e.g., 200 = 2%)
-  takeProfitBPS: number;                // Unused, can be 0
-  priceMultiplierBPS: number;           // Exponential spacing multiplier (e.g., 11000 = 1.1x)
-  dcaOrderSizeMultiplierBPS: number;    // Size scaling multiplier (e.g., 10500 = 1.05x)
-  baseOrderAmount: bigint;              // First ladder rung amount
-  dcaOrderAmount: bigint;               // Subsequent orders base amount
-}
-
-export interface SellOrder {
-  amount: bigint;       // Total asset0 in order (smallest units)
-  filled: bigint;       // Amount already filled (smallest units)
-  price: bigint;        // Price: asset1 per asset0, scaled 1e8
-}
+// Defined with the backtesting engine, which simulates the same ladder
+export type { EscrowParams, SellOrder };
 
 export interface Escrow {
   address: Address;
@@ -170,7 +158,7 @@ export interface OraclePrice {
   price: bigint;                     // Price in oracle decimals
   decimals: number;                  // Usually 8 for Chainlink
   updatedAt: number;                 // Unix timestamp
-  isStale: boolean;                  // updatedAt > 1 hour ago
+  isStale: boolean;                  // Escrow.sol would reject it: no positive answer, unanswered round or > 1 hour old
 }
 
 // ============================================================================
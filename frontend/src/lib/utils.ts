@@ -5,6 +5,7 @@
 import { formatUnits as viemFormatUnits, parseUnits as viemParseUnits } from 'viem';
 import type { FormatOptions, LadderOrder } from './types';
 import { CONSTANTS } from './contracts';
+import { parseContractError } from 'autodca-backtesting/contractErrors';
 
 // ============================================================================
 // DECIMAL CONVERSION
@@ -218,29 +219,8 @@ export function addressEquals(a: string | null, b: string | null): boolean {
 // ERROR HANDLING
 // ============================================================================
 
-/**
- * Extract readable error message from contract error
- */
-export function parseContractError(error: any): string {
-  // viem errors
-  if (error?.message) {
-    if (error.message.includes('User rejected the request')) return 'Transaction rejected by user';
-    if (error.message.includes('insufficient funds')) return 'Insufficient funds';
-
-    // Try to match specific revert reasons often found in viem error messages
-    const revertMatch = error.message.match(/reverted with the following reason:\n(.*?)\n/);
-    if (revertMatch && revertMatch[1]) return revertMatch[1].trim();
-
-    const shortMessageMatch = error.message.match(/Short Message: (.*?)\n/);
-    if (shortMessageMatch && shortMessageMatch[1]) return shortMessageMatch[1].trim();
-  }
-
-  // Fallback for logic consistency with previous implementation if any legacy/other checks needed
-  if (error?.details) return error.details;
-  if (error?.shortMessage) return error.shortMessage;
-
-  return error?.message || 'Unknown error occurred';
-}
+// Shared with the escrow simulation, which reports reverts the same way
+export { parseContractError };
 
 // ============================================================================
 // VALIDATION
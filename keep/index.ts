@@ -1 +1,267 @@
-console.log("Hello via Bun!");
\ No newline at end of file
+import { parseArgs } from 'node:util';
+import { createPublicClient, createWalletClient, defineChain, http, type Hex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import {
+  loadArbitrageConfig,
+  loadMonitorConfig,
+  loadRebuyConfig,
+  type BaseKeeperConfig,
+  type KeeperMode,
+  type SigningKeeperConfig,
+} from './src/keeper/config';
+import { createReference } from './src/keeper/reference';
+import { createEscrowDiscovery } from './src/keeper/discovery';
+import { createArbitrageKeeper, type ArbOutcome } from './src/keeper/arbitrage';
+import { createRebuyKeeper, type RebuyDecision } from './src/keeper/rebuy';
+import { createJournal } from './src/keeper/journal';
+import { createOracleMonitor, type FeedHealth } from './src/keeper/oracleMonitor';
+import { createSink } from './src/keeper/alerts';
+
+/**
+ * Escrow keepers
+ *
+ *   bun run index.ts --config keeper.json [--once] [--dry-run] [--simulate] [--verbose]
+ *   bun run index.ts --mode rebuy --config rebuy.json
+ *   bun run index.ts --mode monitor --config monitor.json
+ *
+ * arbitrage (default): buys escrow rungs priced below a reference whenever that
+ * clears the profit threshold after gas.
+ * rebuy: sells asset0 back into the keeper's own escrows to reset filled ladders.
+ * monitor: watches the escrows' USD feeds and alerts before they go stale. Read-only.
+ *
+ * Stops cleanly on SIGINT / SIGTERM.
+ */
+
+const EXIT_ERROR = 2;
+
+const USAGE = `Usage: bun run index.ts [--mode arbitrage|rebuy|monitor] --config <file.json> [options]
+
+  --mode <mode>     arbitrage (default): take rungs below a reference price
+                    rebuy: call sell() on your own filled ladders
+                    monitor: alert on oracle feeds close to freezing escrows (no key needed)
+  --config <file>   Keeper config (see keeper.example.json, rebuy.example.json,
+                    monitor.example.json); the key is read from the env var named by
+                    privateKeyEnv (default KEEPER_PRIVATE_KEY)
+  --once            Run one tick and exit
+  --dry-run         Evaluate and log, never send transactions
+  --simulate        Run each buy()/sell() through eth_simulateV1 first: exact amounts,
+                    rungs touched and gas, and no transaction that would revert
+  --verbose         Also log escrows with nothing to do, and every feed's health
+`;
+
+interface ModeRunner {
+  pollSeconds: number;
+  tick(): Promise<void>;
+}
+
+interface Flags {
+  dryRun: boolean;
+  simulate: boolean;
+  verbose: boolean;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values: args } = parseArgs({
+    args: argv,
+    options: {
+      mode: { type: 'string' },
+      config: { type: 'string' },
+      once: { type: 'boolean' },
+      'dry-run': { type: 'boolean' },
+      simulate: { type: 'boolean' },
+      verbose: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (args.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  const mode = (args.mode ?? 'arbitrage').toUpperCase() as KeeperMode;
+  if (!args.config || !['ARBITRAGE', 'REBUY', 'MONITOR'].includes(mode)) {
+    console.error(USAGE);
+    return EXIT_ERROR;
+  }
+
+  const flags: Flags = {
+    dryRun: args['dry-run'] ?? false,
+    simulate: args.simulate ?? false,
+    verbose: args.verbose ?? false,
+  };
+  const runner =
+    mode === 'REBUY'
+      ? await rebuyMode(args.config, flags)
+      : mode === 'MONITOR'
+        ? await monitorMode(args.config, flags)
+        : await arbitrageMode(args.config, flags);
+
+  let stopping = false;
+  let wake = () => {};
+  const stop = () => {
+    stopping = true;
+    wake();
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+
+  while (!stopping) {
+    try {
+      await runner.tick();
+    } catch (err: any) {
+      // RPC hiccups shouldn't kill the daemon; the next tick retries
+      log(`tick failed: ${err?.shortMessage ?? err?.message ?? err}`);
+    }
+
+    if (args.once) break;
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, runner.pollSeconds * 1000);
+      wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+
+  log('keeper stopped');
+  return 0;
+}
+
+async function arbitrageMode(path: string, flags: Flags): Promise<ModeRunner> {
+  const config = await loadArbitrageConfig(path);
+  if (flags.dryRun) config.dryRun = true;
+  if (flags.simulate) config.simulate = true;
+  const { chainId, publicClient, walletClient } = await connect(config);
+
+  const reference = createReference(config.reference, publicClient, config.asset1Usd);
+  const keeper = createArbitrageKeeper({
+    config,
+    publicClient,
+    walletClient,
+    reference,
+    discovery: createEscrowDiscovery(publicClient, config.factory, config.fromBlock, config.logChunkBlocks),
+  });
+
+  log(
+    `arbitrage keeper ${walletClient.account.address} on chain ${chainId} · factory ${config.factory} · ${reference.label}` +
+      ` · min profit $${config.minProfitUsd}${config.simulate ? ' · SIMULATED' : ''}${config.dryRun ? ' · DRY RUN' : ''}`
+  );
+
+  return {
+    pollSeconds: config.pollSeconds,
+    async tick() {
+      for (const outcome of await keeper.tick()) {
+        if (flags.verbose || outcome.status !== 'NO_OPPORTUNITY') logOutcome(outcome);
+      }
+    },
+  };
+}
+
+async function rebuyMode(path: string, flags: Flags): Promise<ModeRunner> {
+  const config = await loadRebuyConfig(path);
+  if (flags.dryRun) config.dryRun = true;
+  if (flags.simulate) config.simulate = true;
+  const { chainId, publicClient, walletClient } = await connect(config);
+
+  const keeper = createRebuyKeeper({ config, publicClient, walletClient, journal: createJournal(config.journal) });
+
+  const triggers = [
+    config.soldFraction !== undefined ? `${config.soldFraction * 100}% sold` : null,
+    config.minEdgeBps !== undefined ? `rebuy ${config.minEdgeBps} bps over spot` : null,
+  ].filter(Boolean);
+  log(
+    `rebuy keeper ${walletClient.account.address} on chain ${chainId} · ${config.escrows.length} escrows` +
+      ` · trigger ${triggers.join(' or ')} · journal ${config.journal}` +
+      `${config.simulate ? ' · SIMULATED' : ''}${config.dryRun ? ' · DRY RUN' : ''}`
+  );
+
+  return {
+    pollSeconds: config.pollSeconds,
+    async tick() {
+      for (const decision of await keeper.tick()) {
+        if (flags.verbose || decision.action !== 'HOLD') logDecision(decision);
+      }
+    },
+  };
+}
+
+async function monitorMode(path: string, flags: Flags): Promise<ModeRunner> {
+  const config = await loadMonitorConfig(path);
+  const { chainId, publicClient } = await connectReadOnly(config);
+
+  const monitor = createOracleMonitor({
+    config,
+    publicClient,
+    discovery: config.factory
+      ? createEscrowDiscovery(publicClient, config.factory, config.fromBlock, config.logChunkBlocks)
+      : null,
+    sinks: config.sinks.map(createSink),
+  });
+
+  log(
+    `oracle monitor on chain ${chainId} · ${config.factory ? `factory ${config.factory}` : `${config.escrows!.length} escrows`}` +
+      ` · warn ${config.warnBeforeSeconds}s before the ${config.revertAfterSeconds}s revert` +
+      ` · sinks ${config.sinks.map((sink) => sink.kind).join(', ')}`
+  );
+
+  return {
+    pollSeconds: config.pollSeconds,
+    async tick() {
+      const report = await monitor.tick();
+      if (flags.verbose) report.feeds.forEach(logHealth);
+      for (const error of report.errors) log(`error: ${error}`);
+    },
+  };
+}
+
+async function connect(config: SigningKeeperConfig) {
+  const privateKey = process.env[config.privateKeyEnv];
+  if (!privateKey) throw new Error(`Set ${config.privateKeyEnv} to the keeper's private key`);
+  const account = privateKeyToAccount(privateKey as Hex);
+
+  const { chainId, chain, transport, publicClient } = await connectReadOnly(config);
+  return { chainId, publicClient, walletClient: createWalletClient({ account, chain, transport }) };
+}
+
+async function connectReadOnly(config: BaseKeeperConfig) {
+  const transport = http(config.rpcUrl);
+  const chainId = await createPublicClient({ transport }).getChainId();
+  const chain = defineChain({
+    id: chainId,
+    name: `chain ${chainId}`,
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: { default: { http: [config.rpcUrl] } },
+  });
+
+  return { chainId, chain, transport, publicClient: createPublicClient({ chain, transport }) };
+}
+
+function logOutcome(outcome: ArbOutcome) {
+  const tx = outcome.txHash ? ` · tx ${outcome.txHash}` : '';
+  log(`${outcome.status.padEnd(15)} ${outcome.escrow} ${outcome.pair} · ${outcome.detail}${tx}`);
+}
+
+function logDecision(decision: RebuyDecision) {
+  const tx = decision.txHash ? ` · tx ${decision.txHash}` : '';
+  log(`${decision.action.padEnd(7)} ${decision.escrow} ${decision.pair} · ${decision.reason}${tx}`);
+}
+
+function logHealth(health: FeedHealth) {
+  const age = health.ageSeconds !== undefined ? ` · ${health.ageSeconds}s old, ${health.secondsUntilRevert}s to revert` : '';
+  const beat = health.heartbeat ? ` · heartbeat ~${health.heartbeat.mean}s (max ${health.heartbeat.max}s)` : '';
+  const moved = health.lastDeviationBps !== undefined ? ` · last move ${health.lastDeviationBps} bps` : '';
+  log(`${health.status.padEnd(16)} ${health.description} ${health.feed} · ${health.escrows.length} escrows${age}${beat}${moved}`);
+}
+
+function log(message: string) {
+  console.log(`${new Date().toISOString()} ${message}`);
+}
+
+main(process.argv.slice(2))
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((err) => {
+    console.error(`keeper: ${err instanceof Error ? err.message : err}`);
+    process.exitCode = EXIT_ERROR;
+  });
@@ -0,0 +1,240 @@
+import { parseArgs } from 'node:util';
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+import { DcaBacktester } from 'autodca-backtesting/DcaBacktester';
+import { createCoinGeckoSource, createFileSource, loadCandleSeries } from 'autodca-backtesting/candleSources';
+import { createCachedSource, type CacheReport } from 'autodca-backtesting/candleCache';
+import { formatInterval, resampleSeries, TIMEFRAMES } from 'autodca-backtesting/resample';
+import { coinGeckoNativeInterval } from 'autodca-backtesting/historicalData';
+import { tradesToCsv, equityToCsv, serializeReport } from 'autodca-backtesting/reportExport';
+import type { BacktestResults, CandleSeries, CandleSource, DcaConfig, Timeframe } from 'autodca-backtesting/types';
+import { createFileStore } from './fileStore';
+import { checkThresholds, THRESHOLD_FLAGS, type Thresholds } from './thresholds';
+
+/**
+ * Headless backtest runner
+ *
+ *   bun run backtest --strategy strategy.json --candles btc.csv [--out reports] [--max-drawdown 30]
+ *   bun run backtest --strategy strategy.json --cache .candles --from 2024-01-01 --to 2024-04-01
+ *
+ * Exit codes: 0 passed, 1 a threshold failed, 2 bad input or the run itself failed.
+ */
+
+const EXIT_THRESHOLD_FAILED = 1;
+const EXIT_ERROR = 2;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const USAGE = `Usage: bun run backtest --strategy <file.json> (--candles <file.csv|json> | --cache <dir>) [options]
+
+Candles:
+  --candles <file>       CSV or JSON candles (columns detected like the web import)
+  --utc-offset <hours>   Zone for file dates without one (default 0)
+  --cache <dir>          CoinGecko candles cached in <dir>; only missing ranges are fetched
+  --offline              With --cache, never fetch
+  --symbol <pair>        Overrides the strategy symbol (default BTC/USDC)
+  --from / --to <date>   Range for --cache (default: last 90 days)
+  --timeframe <tf>       Resample to ${Object.keys(TIMEFRAMES).join(', ')}
+
+Run:
+  --capital <usdc>       Initial capital (default: strategy or 10000)
+  --out <dir>            Write <name>-report.json, -trades.csv and -equity.csv
+
+Thresholds (also read from the strategy's "thresholds"):
+  --max-drawdown <pct>   --min-return <pct>   --min-sharpe <n>
+  --min-win-rate <pct>   --min-profit-factor <n>
+`;
+
+/**
+ * Strategy file: either a bare DcaConfig or a config with run settings around it
+ */
+interface StrategyFile {
+  name?: string;
+  symbol?: string;
+  initialCapital?: number;
+  timeframe?: Timeframe;
+  config: DcaConfig;
+  thresholds?: Thresholds;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values: args } = parseArgs({
+    args: argv,
+    options: {
+      strategy: { type: 'string' },
+      candles: { type: 'string' },
+      'utc-offset': { type: 'string' },
+      cache: { type: 'string' },
+      offline: { type: 'boolean' },
+      symbol: { type: 'string' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      timeframe: { type: 'string' },
+      capital: { type: 'string' },
+      out: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+      ...Object.fromEntries(Object.values(THRESHOLD_FLAGS).map((flag) => [flag, { type: 'string' as const }])),
+    },
+  });
+
+  if (args.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (!args.strategy || (!args.candles && !args.cache)) {
+    console.error(USAGE);
+    return EXIT_ERROR;
+  }
+
+  const strategy = await readStrategy(args.strategy);
+  const symbol = args.symbol ?? strategy.symbol ?? 'BTC/USDC';
+  const initialCapital = args.capital !== undefined ? parseNumber('capital', args.capital) : (strategy.initialCapital ?? 10000);
+  const timeframe = args.timeframe ?? strategy.timeframe;
+  if (timeframe !== undefined && !(timeframe in TIMEFRAMES)) {
+    throw new Error(`Unknown timeframe ${timeframe}`);
+  }
+
+  const thresholds: Thresholds = { ...strategy.thresholds };
+  for (const [name, flag] of Object.entries(THRESHOLD_FLAGS) as [keyof Thresholds, string][]) {
+    const value = (args as Record<string, unknown>)[flag];
+    if (typeof value === 'string') thresholds[name] = parseNumber(flag, value);
+  }
+
+  // Load
+  const end = args.to !== undefined ? parseDate('to', args.to) : new Date();
+  const start = args.from !== undefined ? parseDate('from', args.from) : new Date(end.getTime() - 90 * DAY_MS);
+
+  const cacheReports: CacheReport[] = [];
+  let source: CandleSource;
+  if (args.candles) {
+    const text = await readFile(args.candles, 'utf8');
+    const utcOffsetHours = args['utc-offset'] !== undefined ? parseNumber('utc-offset', args['utc-offset']) : 0;
+    source = createFileSource(basename(args.candles), text, { utcOffsetMinutes: utcOffsetHours * 60 });
+  } else {
+    // Built at the requested timeframe, so the cache holds one series per timeframe
+    const intervalMs = timeframe !== undefined ? TIMEFRAMES[timeframe as Timeframe].ms : coinGeckoNativeInterval(start, end);
+    source = createCachedSource(createCoinGeckoSource(intervalMs), {
+      store: createFileStore(args.cache!),
+      timeframe: formatInterval(intervalMs),
+      intervalMs,
+      offline: args.offline,
+      onReport: (report) => cacheReports.push(report),
+    });
+  }
+
+  let series: CandleSeries = await loadCandleSeries(source, symbol, start, end);
+  if (timeframe !== undefined) series = resampleSeries(series, timeframe as Timeframe);
+
+  // Run
+  const results = new DcaBacktester(strategy.config, series.candles, initialCapital).run();
+  const checks = checkThresholds(results, thresholds);
+
+  printSummary(strategy.name ?? basename(args.strategy, '.json'), series, results, cacheReports);
+
+  if (checks.length > 0) {
+    console.log('\nThresholds');
+    printTable(
+      checks.map((c) => [
+        c.passed ? 'PASS' : 'FAIL',
+        `${THRESHOLD_FLAGS[c.name]} ${c.limit}`,
+        formatNumber(c.actual),
+      ])
+    );
+  }
+
+  // Reports
+  if (args.out) {
+    const name = strategy.name ?? basename(args.strategy, '.json');
+    await mkdir(args.out, { recursive: true });
+    await writeFile(
+      join(args.out, `${name}-report.json`),
+      serializeReport(results, {
+        symbol,
+        start: series.candles[0]?.timestamp ?? start.getTime(),
+        end: series.candles[series.candles.length - 1]?.timestamp ?? end.getTime(),
+        source: series.source,
+        timeframe: timeframe ?? 'NATIVE',
+      })
+    );
+    await writeFile(join(args.out, `${name}-trades.csv`), tradesToCsv(results));
+    await writeFile(join(args.out, `${name}-equity.csv`), equityToCsv(results));
+    console.log(`\nReports written to ${args.out}`);
+  }
+
+  return checks.every((c) => c.passed) ? 0 : EXIT_THRESHOLD_FAILED;
+}
+
+async function readStrategy(path: string): Promise<StrategyFile> {
+  const raw = JSON.parse(await readFile(path, 'utf8'));
+  const strategy: StrategyFile = 'config' in raw ? raw : { config: raw };
+
+  if (typeof strategy.config?.baseOrderSize !== 'number' || (strategy.config.side !== 'BUY' && strategy.config.side !== 'SELL')) {
+    throw new Error(`${path}: not a DcaConfig (needs at least side and baseOrderSize)`);
+  }
+  return strategy;
+}
+
+function printSummary(name: string, series: CandleSeries, results: BacktestResults, cacheReports: CacheReport[]) {
+  const first = series.candles[0];
+  const last = series.candles[series.candles.length - 1];
+  const gaps = series.validation.gaps.reduce((sum, g) => sum + g.missing, 0);
+
+  console.log(`${name} · ${series.symbol} · ${series.source.label}`);
+  console.log(
+    `${series.candles.length} candles, ${first ? new Date(first.timestamp).toISOString() : '-'} → ${last ? new Date(last.timestamp).toISOString() : '-'}` +
+      (gaps > 0 ? `, ${gaps} missing` : '') +
+      (series.resample ? `, resampled to ${series.resample.timeframe}` : '')
+  );
+  for (const report of cacheReports) {
+    console.log(`cache: ${report.cachedCandles} cached, ${report.fetched.length} ranges fetched, ${report.missing.length} not cached`);
+  }
+
+  console.log('');
+  printTable([
+    ['Final value', formatNumber(results.finalValue)],
+    ['Return', `${formatNumber(results.totalReturnPercent)}%`],
+    ['Max drawdown', `${formatNumber(results.maxDrawdown)}%`],
+    ['Sharpe / Sortino', `${formatNumber(results.sharpeRatio)} / ${formatNumber(results.sortinoRatio)}`],
+    ['Calmar', formatNumber(results.calmarRatio)],
+    ['Rounds', `${results.roundsCompleted} (${formatNumber(results.winRate)}% won)`],
+    ['Profit factor', formatNumber(results.profitFactor)],
+    ['Costs', formatNumber(results.costs.total)],
+    ['DCA skipped', String(results.dcaOrdersSkipped)],
+    ['Entries blocked', String(results.entriesBlocked)],
+    ...results.benchmarks.map((b): [string, string] => [
+      `vs ${b.kind}`,
+      `${formatNumber(b.totalReturnPercent)}% (alpha ${formatNumber(b.alpha)})`,
+    ]),
+  ]);
+}
+
+function printTable(rows: string[][]) {
+  const widths = rows[0]?.map((_, i) => Math.max(...rows.map((r) => (r[i] ?? '').length))) ?? [];
+  for (const row of rows) {
+    console.log(row.map((cell, i) => cell.padEnd(widths[i] ?? 0)).join('  ').trimEnd());
+  }
+}
+
+function formatNumber(value: number): string {
+  return Number.isFinite(value) ? value.toFixed(2) : String(value);
+}
+
+function parseNumber(flag: string, value: string): number {
+  const n = Number(value);
+  if (!Number.isFinite(n)) throw new Error(`--${flag}: not a number: ${value}`);
+  return n;
+}
+
+function parseDate(flag: string, value: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) throw new Error(`--${flag}: not a date: ${value}`);
+  return date;
+}
+
+main(process.argv.slice(2))
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((err) => {
+    console.error(`backtest: ${err instanceof Error ? err.message : err}`);
+    process.exitCode = EXIT_ERROR;
+  });
@@ -0,0 +1,46 @@
+import { mkdir, readFile, writeFile, readdir, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { CandleStore, CachedSeriesRecord } from 'autodca-backtesting/candleCache';
+
+/**
+ * Candle cache on disk, one JSON file per series
+ */
+export function createFileStore(dir: string): CandleStore {
+  const pathFor = (key: string) => join(dir, `${encodeURIComponent(key)}.json`);
+
+  const read = async (path: string): Promise<CachedSeriesRecord | undefined> => {
+    try {
+      return JSON.parse(await readFile(path, 'utf8'));
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') return undefined;
+      throw err;
+    }
+  };
+
+  const files = async (): Promise<string[]> => {
+    try {
+      return (await readdir(dir)).filter((f) => f.endsWith('.json'));
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') return [];
+      throw err;
+    }
+  };
+
+  return {
+    get: (key) => read(pathFor(key)),
+    put: async (record) => {
+      await mkdir(dir, { recursive: true });
+      await writeFile(pathFor(record.key), JSON.stringify(record));
+    },
+    list: async () => {
+      const records = await Promise.all((await files()).map((f) => read(join(dir, f))));
+      return records.filter((r): r is CachedSeriesRecord => r !== undefined);
+    },
+    delete: async (key) => {
+      await rm(pathFor(key), { force: true });
+    },
+    clear: async () => {
+      await Promise.all((await files()).map((f) => rm(join(dir, f), { force: true })));
+    },
+  };
+}
@@ -0,0 +1,46 @@
+import type { BacktestResults } from 'autodca-backtesting/types';
+
+/**
+ * Pass/fail limits for a run, so a strategy regression fails the job
+ */
+export interface Thresholds {
+  maxDrawdown?: number; // Percent
+  minReturnPercent?: number;
+  minSharpe?: number;
+  minWinRate?: number; // Percent
+  minProfitFactor?: number;
+}
+
+export interface ThresholdCheck {
+  name: keyof Thresholds;
+  limit: number;
+  actual: number;
+  passed: boolean;
+}
+
+export const THRESHOLD_FLAGS: Record<keyof Thresholds, string> = {
+  maxDrawdown: 'max-drawdown',
+  minReturnPercent: 'min-return',
+  minSharpe: 'min-sharpe',
+  minWinRate: 'min-win-rate',
+  minProfitFactor: 'min-profit-factor',
+};
+
+export function checkThresholds(results: BacktestResults, thresholds: Thresholds): ThresholdCheck[] {
+  const actuals: Record<keyof Thresholds, number> = {
+    maxDrawdown: results.maxDrawdown,
+    minReturnPercent: results.totalReturnPercent,
+    minSharpe: results.sharpeRatio,
+    minWinRate: results.winRate,
+    minProfitFactor: results.profitFactor,
+  };
+
+  return (Object.keys(actuals) as (keyof Thresholds)[]).flatMap((name) => {
+    const limit = thresholds[name];
+    if (limit === undefined) return [];
+
+    const actual = actuals[name];
+    const passed = name === 'maxDrawdown' ? actual <= limit : actual >= limit;
+    return [{ name, limit, actual, passed }];
+  });
+}
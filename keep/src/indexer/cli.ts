@@ -0,0 +1,121 @@
+import { parseArgs } from 'node:util';
+import { createPublicClient, http } from 'viem';
+import { loadIndexerConfig } from './config';
+import { openIndexStore } from './store';
+import { createIndexer, type SyncReport } from './indexer';
+import { createIndexerApi } from './server';
+
+/**
+ * Escrow indexer
+ *
+ *   bun run indexer --config indexer.json [--once] [--no-serve]
+ *
+ * Follows the factory's EscrowCreated and the escrows' Buy/Sell logs into
+ * SQLite and serves them over HTTP (see server.ts for the routes). Restarts
+ * resume from the stored checkpoint.
+ */
+
+const EXIT_ERROR = 2;
+
+const USAGE = `Usage: bun run indexer --config <file.json> [options]
+
+  --config <file>   Indexer config (see indexer.example.json)
+  --once            Sync up to the current head and exit
+  --no-serve        Index only, without the HTTP API
+`;
+
+async function main(argv: string[]): Promise<number> {
+  const { values: args } = parseArgs({
+    args: argv,
+    options: {
+      config: { type: 'string' },
+      once: { type: 'boolean' },
+      'no-serve': { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (args.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (!args.config) {
+    console.error(USAGE);
+    return EXIT_ERROR;
+  }
+
+  const config = await loadIndexerConfig(args.config);
+  const publicClient = createPublicClient({ transport: http(config.rpcUrl) });
+  const store = openIndexStore(config.database);
+  const indexer = createIndexer({ config, publicClient, store });
+  let lastError: string | null = null;
+
+  const server =
+    args.once || args['no-serve']
+      ? null
+      : Bun.serve({
+          hostname: config.host,
+          port: config.port,
+          fetch: createIndexerApi(store, { head: indexer.head, lastError: () => lastError }),
+        });
+
+  const checkpoint = store.checkpoint();
+  log(
+    `indexer on chain ${await publicClient.getChainId()} · factory ${config.factory} · ${config.database}` +
+      ` · ${checkpoint ? `resuming after block ${checkpoint.number}` : `from block ${config.fromBlock}`}` +
+      `${server ? ` · http://${config.host}:${config.port}` : ''}`
+  );
+
+  let stopping = false;
+  let wake = () => {};
+  const stop = () => {
+    stopping = true;
+    wake();
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+
+  while (!stopping) {
+    try {
+      logSync(await indexer.sync());
+      lastError = null;
+    } catch (err: any) {
+      // The store only ever holds whole chunks, so the next sync resumes cleanly
+      lastError = err?.shortMessage ?? err?.message ?? String(err);
+      log(`sync failed: ${lastError}`);
+    }
+
+    if (args.once) break;
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, config.pollSeconds * 1000);
+      wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+
+  server?.stop();
+  store.close();
+  log('indexer stopped');
+  return 0;
+}
+
+function logSync(report: SyncReport) {
+  if (report.reorgedFrom !== undefined) log(`reorg: rolled back to block ${report.reorgedFrom}`);
+  if (report.toBlock < report.fromBlock) return;
+  log(`blocks ${report.fromBlock}-${report.toBlock} · ${report.escrows} escrows · ${report.trades} trades`);
+}
+
+function log(message: string) {
+  console.log(`${new Date().toISOString()} ${message}`);
+}
+
+main(process.argv.slice(2))
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((err) => {
+    console.error(`indexer: ${err instanceof Error ? err.message : err}`);
+    process.exitCode = EXIT_ERROR;
+  });
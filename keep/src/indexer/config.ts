@@ -0,0 +1,44 @@
+import { readFile } from 'node:fs/promises';
+import { isAddress, type Address } from 'viem';
+
+export interface IndexerConfig {
+  rpcUrl: string;
+  factory: Address;
+  fromBlock: bigint; // Factory deployment block
+  chunkBlocks: bigint; // Blocks per getLogs request
+  confirmations: number; // Stay this far behind head; shallower reorgs never reach the database
+  pollSeconds: number;
+  database: string; // SQLite file
+  host: string;
+  port: number;
+}
+
+const DEFAULTS = {
+  fromBlock: 0n,
+  chunkBlocks: 5_000n,
+  confirmations: 2,
+  pollSeconds: 12,
+  database: 'escrow-index.sqlite',
+  host: '127.0.0.1',
+  port: 8788,
+};
+
+export async function loadIndexerConfig(path: string): Promise<IndexerConfig> {
+  const raw = JSON.parse(await readFile(path, 'utf8'));
+  const fail = (message: string): never => {
+    throw new Error(`${path}: ${message}`);
+  };
+
+  if (typeof raw.rpcUrl !== 'string') fail('rpcUrl is required');
+  if (!isAddress(raw.factory ?? '')) fail('factory must be an address');
+  if (raw.confirmations !== undefined && !(Number.isInteger(raw.confirmations) && raw.confirmations >= 0)) {
+    fail('confirmations must be a whole number of blocks');
+  }
+
+  return {
+    ...DEFAULTS,
+    ...raw,
+    fromBlock: BigInt(raw.fromBlock ?? DEFAULTS.fromBlock),
+    chunkBlocks: BigInt(raw.chunkBlocks ?? DEFAULTS.chunkBlocks),
+  };
+}
@@ -0,0 +1,134 @@
+import type { Address, Hash, PublicClient } from 'viem';
+import { ESCROW_ABI, ESCROW_FACTORY_ABI } from '../keeper/abis';
+import type { IndexerConfig } from './config';
+import type { IndexBatch, IndexedBlock, IndexedEscrow, IndexedTrade, IndexStore } from './store';
+
+/**
+ * Follows EscrowCreated, Buy and Sell logs into the store, up to
+ * head - confirmations. Each sync first checks that the checkpoint block is
+ * still canonical; if not it walks the stored hashes back to the newest block
+ * the chain still agrees with, rolls the store back there and re-indexes.
+ */
+
+export interface SyncReport {
+  fromBlock: bigint;
+  toBlock: bigint; // fromBlock - 1 when already caught up
+  escrows: number;
+  trades: number;
+  reorgedFrom?: bigint; // The rollback target when a reorg was found
+}
+
+export interface Indexer {
+  sync(): Promise<SyncReport>;
+  head(): bigint | null; // Last chain head seen
+}
+
+export interface IndexerDeps {
+  config: IndexerConfig;
+  publicClient: PublicClient;
+  store: IndexStore;
+}
+
+export function createIndexer({ config, publicClient, store }: IndexerDeps): Indexer {
+  const known = new Set<Address>(store.escrowAddresses());
+  let lastHead: bigint | null = null;
+
+  const blockHash = async (number: bigint) => (await publicClient.getBlock({ blockNumber: number })).hash;
+
+  // Newest stored block still on the canonical chain, or fromBlock - 1 to start over
+  async function commonAncestor(head: bigint): Promise<bigint> {
+    for (const block of store.recentBlocks()) {
+      if (block.number <= head && (await blockHash(block.number)) === block.hash) return block.number;
+    }
+    return config.fromBlock - 1n;
+  }
+
+  async function indexRange(fromBlock: bigint, toBlock: bigint): Promise<IndexBatch> {
+    const created = await publicClient.getContractEvents({
+      address: config.factory,
+      abi: ESCROW_FACTORY_ABI,
+      eventName: 'EscrowCreated',
+      fromBlock,
+      toBlock,
+      strict: true,
+    });
+    for (const log of created) known.add(log.args.escrow.toLowerCase() as Address);
+
+    // Buy/Sell from any address, kept only for the factory's escrows: no address list to outgrow RPC limits
+    const traded = (
+      await publicClient.getContractEvents({ abi: ESCROW_ABI, fromBlock, toBlock, strict: true })
+    ).filter((log) => (log.eventName === 'Buy' || log.eventName === 'Sell') && known.has(log.address.toLowerCase() as Address));
+
+    const headers = new Map<bigint, { hash: Hash; timestamp: number }>();
+    const blockNumbers = new Set([...created, ...traded].map((log) => log.blockNumber));
+    blockNumbers.add(toBlock);
+    for (const number of blockNumbers) {
+      const block = await publicClient.getBlock({ blockNumber: number });
+      headers.set(number, { hash: block.hash, timestamp: Number(block.timestamp) });
+    }
+    const timestampOf = (number: bigint) => headers.get(number)!.timestamp;
+
+    const escrows: IndexedEscrow[] = created.map((log) => ({
+      address: log.args.escrow,
+      owner: log.args.owner,
+      asset0: log.args.asset0,
+      asset1: log.args.asset1,
+      blockNumber: log.blockNumber,
+      txHash: log.transactionHash,
+      createdAt: timestampOf(log.blockNumber),
+    }));
+
+    const trades: IndexedTrade[] = traded.map((log) => {
+      const base = {
+        escrow: log.address,
+        blockNumber: log.blockNumber,
+        txHash: log.transactionHash,
+        logIndex: log.logIndex,
+        timestamp: timestampOf(log.blockNumber),
+      };
+      if (log.eventName === 'Buy') {
+        const args = log.args as { buyer: Address; amount1In: bigint; amount0Out: bigint };
+        return { ...base, kind: 'BUY', trader: args.buyer, amount0: args.amount0Out, amount1: args.amount1In };
+      }
+      const args = log.args as { seller: Address; amount0In: bigint; amount1Out: bigint };
+      return { ...base, kind: 'SELL', trader: args.seller, amount0: args.amount0In, amount1: args.amount1Out };
+    });
+
+    const blocks: IndexedBlock[] = [...headers].map(([number, { hash }]) => ({ number, hash }));
+    return { escrows, trades, blocks, checkpoint: { number: toBlock, hash: headers.get(toBlock)!.hash } };
+  }
+
+  return {
+    async sync() {
+      const head = await publicClient.getBlockNumber();
+      lastHead = head;
+      const safeHead = head - BigInt(config.confirmations);
+
+      let reorgedFrom: bigint | undefined;
+      const checkpoint = store.checkpoint();
+      if (checkpoint && (checkpoint.number > head || (await blockHash(checkpoint.number)) !== checkpoint.hash)) {
+        reorgedFrom = await commonAncestor(head);
+        store.rollback(reorgedFrom);
+        known.clear();
+        for (const address of store.escrowAddresses()) known.add(address);
+      }
+
+      const resumed = store.checkpoint();
+      const fromBlock = resumed ? resumed.number + 1n : config.fromBlock;
+      const report: SyncReport = { fromBlock, toBlock: fromBlock - 1n, escrows: 0, trades: 0, reorgedFrom };
+
+      for (let next = fromBlock; next <= safeHead; ) {
+        const toBlock = next + config.chunkBlocks - 1n < safeHead ? next + config.chunkBlocks - 1n : safeHead;
+        const batch = await indexRange(next, toBlock);
+        store.commit(batch);
+
+        report.toBlock = toBlock;
+        report.escrows += batch.escrows.length;
+        report.trades += batch.trades.length;
+        next = toBlock + 1n;
+      }
+      return report;
+    },
+    head: () => lastHead,
+  };
+}
@@ -0,0 +1,97 @@
+import { isAddress, type Address } from 'viem';
+import type { IndexStore } from './store';
+
+/**
+ * Read-only JSON API over the store, as a fetch handler for Bun.serve
+ *
+ *   GET /health                               checkpoint and chain head
+ *   GET /escrows?owner=0x..                   escrows created by an owner
+ *   GET /escrows?asset0=0x..&asset1=0x..      escrows trading a pair
+ *   GET /escrows/:address                     one escrow
+ *   GET /escrows/:address/trades?limit=&before=   newest first; before pages by block
+ *   GET /escrows/:address/volume              buy/sell totals
+ *
+ * Amounts and block numbers are decimal strings; addresses are lowercase.
+ */
+
+export interface ApiStatus {
+  head(): bigint | null;
+  lastError(): string | null;
+}
+
+const MAX_TRADES = 1000;
+
+const HEADERS = {
+  'content-type': 'application/json',
+  // The dapp is served from another origin
+  'access-control-allow-origin': '*',
+};
+
+function json(body: unknown, status = 200): Response {
+  const text = JSON.stringify(body, (_, value) => (typeof value === 'bigint' ? value.toString() : value));
+  return new Response(text, { status, headers: HEADERS });
+}
+
+const notFound = (message: string) => json({ error: message }, 404);
+const badRequest = (message: string) => json({ error: message }, 400);
+
+export function createIndexerApi(store: IndexStore, status: ApiStatus): (request: Request) => Response {
+  return (request) => {
+    if (request.method === 'OPTIONS') return new Response(null, { status: 204, headers: HEADERS });
+    if (request.method !== 'GET') return json({ error: 'GET only' }, 405);
+
+    const url = new URL(request.url);
+    const parts = url.pathname.split('/').filter(Boolean);
+    const param = (name: string) => url.searchParams.get(name);
+
+    if (parts.length === 1 && parts[0] === 'health') {
+      const checkpoint = store.checkpoint();
+      const head = status.head();
+      return json({
+        checkpoint: checkpoint?.number ?? null,
+        head,
+        behind: checkpoint && head !== null ? head - checkpoint.number : null,
+        error: status.lastError(),
+      });
+    }
+
+    if (parts[0] !== 'escrows') return notFound(`no route ${url.pathname}`);
+
+    if (parts.length === 1) {
+      const owner = param('owner');
+      const asset0 = param('asset0');
+      const asset1 = param('asset1');
+      if (owner) {
+        if (!isAddress(owner)) return badRequest('owner must be an address');
+        return json(store.escrowsByOwner(owner));
+      }
+      if (asset0 && asset1) {
+        if (!isAddress(asset0) || !isAddress(asset1)) return badRequest('asset0 and asset1 must be addresses');
+        return json(store.escrowsByPair(asset0, asset1));
+      }
+      return badRequest('pass owner, or asset0 and asset1');
+    }
+
+    const address = parts[1]!;
+    if (!isAddress(address)) return badRequest(`${address} is not an address`);
+    const escrow = store.escrow(address as Address);
+    if (!escrow) return notFound(`escrow ${address} not indexed`);
+
+    if (parts.length === 2) return json(escrow);
+    if (parts.length === 3 && parts[2] === 'trades') {
+      const limit = Number(param('limit') ?? 500);
+      const before = param('before');
+      if (!Number.isInteger(limit) || limit < 1) return badRequest('limit must be a positive integer');
+      if (before !== null && !/^\d+$/.test(before)) return badRequest('before must be a block number');
+      return json(
+        store.trades(escrow.address, {
+          limit: Math.min(limit, MAX_TRADES),
+          beforeBlock: before !== null ? BigInt(before) : undefined,
+        })
+      );
+    }
+    if (parts.length === 3 && parts[2] === 'volume') return json(store.volume(escrow.address));
+
+    return notFound(`no route ${url.pathname}`);
+  };
+}
@@ -0,0 +1,289 @@
+import { Database } from 'bun:sqlite';
+import type { Address, Hash } from 'viem';
+
+/**
+ * SQLite tables behind the indexer. Token amounts are uint256, so they're
+ * stored as decimal text and summed as bigints; block numbers fit in INTEGER.
+ */
+
+export type TradeKind = 'BUY' | 'SELL';
+
+export interface IndexedEscrow {
+  address: Address;
+  owner: Address;
+  asset0: Address;
+  asset1: Address;
+  blockNumber: bigint;
+  txHash: Hash;
+  createdAt: number; // Unix seconds
+}
+
+export interface IndexedTrade {
+  escrow: Address;
+  kind: TradeKind;
+  trader: Address; // Buyer or seller
+  amount0: bigint; // asset0 out of (BUY) or into (SELL) the escrow
+  amount1: bigint; // asset1 into (BUY) or out of (SELL) the escrow
+  blockNumber: bigint;
+  txHash: Hash;
+  logIndex: number;
+  timestamp: number; // Unix seconds
+}
+
+export interface EscrowVolume {
+  escrow: Address;
+  buys: number;
+  sells: number;
+  bought0: bigint; // asset0 bought from the ladder
+  paid1: bigint; // asset1 paid for it
+  sold0: bigint; // asset0 sold back in rebuys
+  received1: bigint; // asset1 paid out for it
+  firstTradeAt: number | null;
+  lastTradeAt: number | null;
+}
+
+export interface IndexedBlock {
+  number: bigint;
+  hash: Hash;
+}
+
+/**
+ * Everything from one indexed block range, written in one transaction
+ */
+export interface IndexBatch {
+  escrows: IndexedEscrow[];
+  trades: IndexedTrade[];
+  blocks: IndexedBlock[]; // Hashes to check for reorgs later
+  checkpoint: IndexedBlock; // Last block of the range
+}
+
+export interface TradeQuery {
+  limit?: number;
+  beforeBlock?: bigint; // Paging: trades strictly before this block
+}
+
+export interface IndexStore {
+  checkpoint(): IndexedBlock | null;
+  recentBlocks(): IndexedBlock[]; // Newest first
+  commit(batch: IndexBatch): void;
+  rollback(toBlock: bigint): void; // Forget everything after toBlock
+  escrowAddresses(): Address[];
+  escrow(address: Address): IndexedEscrow | null;
+  escrowsByOwner(owner: Address): IndexedEscrow[];
+  escrowsByPair(asset0: Address, asset1: Address): IndexedEscrow[];
+  trades(escrow: Address, query?: TradeQuery): IndexedTrade[];
+  volume(escrow: Address): EscrowVolume;
+  close(): void;
+}
+
+// Reorgs deeper than this many indexed blocks can't be located and force a full re-index
+export const KEPT_BLOCK_HASHES = 256;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS checkpoint (
+    id INTEGER PRIMARY KEY CHECK (id = 0),
+    block_number INTEGER NOT NULL,
+    block_hash TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS escrows (
+    address TEXT PRIMARY KEY,
+    owner TEXT NOT NULL,
+    asset0 TEXT NOT NULL,
+    asset1 TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS escrows_owner ON escrows (owner);
+  CREATE INDEX IF NOT EXISTS escrows_pair ON escrows (asset0, asset1);
+  CREATE TABLE IF NOT EXISTS trades (
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    escrow TEXT NOT NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('BUY', 'SELL')),
+    trader TEXT NOT NULL,
+    amount0 TEXT NOT NULL,
+    amount1 TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    timestamp INTEGER NOT NULL,
+    PRIMARY KEY (tx_hash, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS trades_escrow ON trades (escrow, block_number, log_index);
+`;
+
+interface EscrowRow {
+  address: string;
+  owner: string;
+  asset0: string;
+  asset1: string;
+  block_number: number;
+  tx_hash: string;
+  created_at: number;
+}
+
+interface TradeRow {
+  tx_hash: string;
+  log_index: number;
+  escrow: string;
+  kind: TradeKind;
+  trader: string;
+  amount0: string;
+  amount1: string;
+  block_number: number;
+  timestamp: number;
+}
+
+const toEscrow = (row: EscrowRow): IndexedEscrow => ({
+  address: row.address as Address,
+  owner: row.owner as Address,
+  asset0: row.asset0 as Address,
+  asset1: row.asset1 as Address,
+  blockNumber: BigInt(row.block_number),
+  txHash: row.tx_hash as Hash,
+  createdAt: row.created_at,
+});
+
+const toTrade = (row: TradeRow): IndexedTrade => ({
+  escrow: row.escrow as Address,
+  kind: row.kind,
+  trader: row.trader as Address,
+  amount0: BigInt(row.amount0),
+  amount1: BigInt(row.amount1),
+  blockNumber: BigInt(row.block_number),
+  txHash: row.tx_hash as Hash,
+  logIndex: row.log_index,
+  timestamp: row.timestamp,
+});
+
+// Addresses are stored lowercase so lookups don't depend on checksum casing
+const key = (address: string) => address.toLowerCase();
+
+export function openIndexStore(path: string): IndexStore {
+  const db = new Database(path, { create: true });
+  db.exec('PRAGMA journal_mode = WAL');
+  db.exec(SCHEMA);
+
+  const insertEscrow = db.query(
+    'INSERT OR REPLACE INTO escrows (address, owner, asset0, asset1, block_number, tx_hash, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+  );
+  const insertTrade = db.query(
+    `INSERT OR REPLACE INTO trades (tx_hash, log_index, escrow, kind, trader, amount0, amount1, block_number, timestamp)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+  const insertBlock = db.query('INSERT OR REPLACE INTO blocks (number, hash) VALUES (?, ?)');
+  const pruneBlocks = db.query(
+    'DELETE FROM blocks WHERE number NOT IN (SELECT number FROM blocks ORDER BY number DESC LIMIT ?)'
+  );
+  const setCheckpoint = db.query('INSERT OR REPLACE INTO checkpoint (id, block_number, block_hash) VALUES (0, ?, ?)');
+
+  const commit = db.transaction((batch: IndexBatch) => {
+    for (const e of batch.escrows) {
+      insertEscrow.run(key(e.address), key(e.owner), key(e.asset0), key(e.asset1), Number(e.blockNumber), e.txHash, e.createdAt);
+    }
+    for (const t of batch.trades) {
+      insertTrade.run(
+        t.txHash,
+        t.logIndex,
+        key(t.escrow),
+        t.kind,
+        key(t.trader),
+        t.amount0.toString(),
+        t.amount1.toString(),
+        Number(t.blockNumber),
+        t.timestamp
+      );
+    }
+    for (const block of [...batch.blocks, batch.checkpoint]) insertBlock.run(Number(block.number), block.hash);
+    pruneBlocks.run(KEPT_BLOCK_HASHES);
+    setCheckpoint.run(Number(batch.checkpoint.number), batch.checkpoint.hash);
+  });
+
+  const rollback = db.transaction((toBlock: bigint) => {
+    const after = Number(toBlock);
+    db.run('DELETE FROM trades WHERE block_number > ?', [after]);
+    db.run('DELETE FROM escrows WHERE block_number > ?', [after]);
+    db.run('DELETE FROM blocks WHERE number > ?', [after]);
+    const kept = db.query<{ number: number; hash: string }, []>('SELECT number, hash FROM blocks ORDER BY number DESC LIMIT 1').get();
+    if (kept) setCheckpoint.run(kept.number, kept.hash);
+    else db.run('DELETE FROM checkpoint');
+  });
+
+  return {
+    checkpoint() {
+      const row = db.query<{ block_number: number; block_hash: string }, []>('SELECT block_number, block_hash FROM checkpoint').get();
+      return row ? { number: BigInt(row.block_number), hash: row.block_hash as Hash } : null;
+    },
+    recentBlocks() {
+      return db
+        .query<{ number: number; hash: string }, []>('SELECT number, hash FROM blocks ORDER BY number DESC')
+        .all()
+        .map((row) => ({ number: BigInt(row.number), hash: row.hash as Hash }));
+    },
+    commit: (batch) => commit(batch),
+    rollback: (toBlock) => rollback(toBlock),
+    escrowAddresses() {
+      return db
+        .query<{ address: string }, []>('SELECT address FROM escrows')
+        .all()
+        .map((row) => row.address as Address);
+    },
+    escrow(address) {
+      const row = db.query<EscrowRow, [string]>('SELECT * FROM escrows WHERE address = ?').get(key(address));
+      return row ? toEscrow(row) : null;
+    },
+    escrowsByOwner(owner) {
+      return db
+        .query<EscrowRow, [string]>('SELECT * FROM escrows WHERE owner = ? ORDER BY block_number')
+        .all(key(owner))
+        .map(toEscrow);
+    },
+    escrowsByPair(asset0, asset1) {
+      return db
+        .query<EscrowRow, [string, string]>('SELECT * FROM escrows WHERE asset0 = ? AND asset1 = ? ORDER BY block_number')
+        .all(key(asset0), key(asset1))
+        .map(toEscrow);
+    },
+    trades(escrow, { limit = 500, beforeBlock } = {}) {
+      return db
+        .query<TradeRow, [string, number, number]>(
+          `SELECT * FROM trades WHERE escrow = ? AND block_number < ?
+           ORDER BY block_number DESC, log_index DESC LIMIT ?`
+        )
+        .all(key(escrow), beforeBlock !== undefined ? Number(beforeBlock) : Number.MAX_SAFE_INTEGER, limit)
+        .map(toTrade);
+    },
+    volume(escrow) {
+      const rows = db
+        .query<TradeRow, [string]>('SELECT * FROM trades WHERE escrow = ? ORDER BY block_number, log_index')
+        .all(key(escrow));
+      const volume: EscrowVolume = {
+        escrow: key(escrow) as Address,
+        buys: 0,
+        sells: 0,
+        bought0: 0n,
+        paid1: 0n,
+        sold0: 0n,
+        received1: 0n,
+        firstTradeAt: rows[0]?.timestamp ?? null,
+        lastTradeAt: rows[rows.length - 1]?.timestamp ?? null,
+      };
+      for (const row of rows) {
+        if (row.kind === 'BUY') {
+          volume.buys++;
+          volume.bought0 += BigInt(row.amount0);
+          volume.paid1 += BigInt(row.amount1);
+        } else {
+          volume.sells++;
+          volume.sold0 += BigInt(row.amount0);
+          volume.received1 += BigInt(row.amount1);
+        }
+      }
+      return volume;
+    },
+    close: () => db.close(),
+  };
+}
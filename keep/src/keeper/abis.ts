@@ -0,0 +1,49 @@
+import { parseAbi } from 'viem';
+
+/**
+ * The parts of the contracts the keepers touch (same signatures as frontend/src/lib/contracts.ts)
+ */
+
+export const ESCROW_FACTORY_ABI = parseAbi([
+  'event EscrowCreated(address indexed escrow, address indexed owner, address asset0, address asset1)',
+]);
+
+export const ESCROW_ABI = parseAbi([
+  'function asset0() external view returns (address)',
+  'function asset1() external view returns (address)',
+  'function oracleAsset0Usd() external view returns (address)',
+  'function oracleAsset1Usd() external view returns (address)',
+  'function owner() external view returns (address)',
+  'function params() external view returns (uint256 dcaOrdersSize, uint256 priceDeviationBPS, uint256 takeProfitBPS, uint128 priceMultiplierBPS, uint128 dcaOrderSizeMultiplierBPS, uint128 baseOrderAmount, uint128 dcaOrderAmount)',
+  'function lastExecuteOrder() external view returns (uint256)',
+  'function getSellOrders() external view returns ((uint128 amount, uint128 filled, uint128 price)[])',
+  'function getCurrentSpotPrice() external view returns (uint256)',
+  'function estimateBuyOutput(uint256 amount1In) external view returns (uint256 amount0Out, uint256[] orderIndicesFilled)',
+  'function getTotalSoldAsset0() external view returns (uint256)',
+  'function getAverageSellPrice() external view returns (uint256)',
+  'function buy(uint256 amount1In, uint256 minAmount0Out, uint256 deadline) external',
+  'function sell(uint256 amount0In, uint256 minAmount1Out, uint256 deadline) external',
+  'event Buy(address indexed buyer, uint256 amount1In, uint256 amount0Out)',
+  'event Sell(address indexed seller, uint256 amount0In, uint256 amount1Out)',
+]);
+
+export const ERC20_ABI = parseAbi([
+  'function approve(address spender, uint256 amount) external returns (bool)',
+  'function allowance(address owner, address spender) external view returns (uint256)',
+  'function balanceOf(address account) external view returns (uint256)',
+  'function decimals() external view returns (uint8)',
+  'function symbol() external view returns (string)',
+]);
+
+export const CHAINLINK_AGGREGATOR_ABI = parseAbi([
+  'function decimals() external view returns (uint8)',
+  'function description() external view returns (string)',
+  'function latestRoundData() external view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+  'function getRoundData(uint80 roundId) external view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+]);
+
+export const UNISWAP_V2_PAIR_ABI = parseAbi([
+  'function token0() external view returns (address)',
+  'function token1() external view returns (address)',
+  'function getReserves() external view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
+]);
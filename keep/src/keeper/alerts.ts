@@ -0,0 +1,102 @@
+import type { Address } from 'viem';
+import { createJournal } from './journal';
+import type { AlertSinkConfig } from './config';
+
+/**
+ * Oracle alerts and where they go. A sink that fails is reported and skipped;
+ * it never stops the others.
+ */
+
+export type AlertLevel = 'INFO' | 'WARNING' | 'CRITICAL';
+
+export type AlertKind =
+  | 'STALE_SOON' // Within warnBeforeSeconds of the revert threshold
+  | 'STALE' // Past it: buy() and sell() revert
+  | 'INCOMPLETE_ROUND' // answeredInRound < roundId: buy() and sell() revert
+  | 'INVALID_ANSWER' // answer <= 0: buy() and sell() revert
+  | 'READ_FAILED'
+  | 'SLOW_HEARTBEAT' // Observed update interval longer than the revert threshold
+  | 'DEVIATION' // Round-to-round move above deviationAlertBps
+  | 'RECOVERED';
+
+export interface OracleAlert {
+  at: string; // ISO time
+  level: AlertLevel;
+  kind: AlertKind;
+  feed: Address;
+  description: string; // e.g. "ETH / USD"
+  escrows: Address[]; // Escrows that read this feed
+  message: string;
+  roundId?: string;
+  price?: string; // Feed decimals applied
+  ageSeconds?: number;
+  secondsUntilRevert?: number;
+  deviationBps?: number;
+}
+
+export interface AlertSink {
+  name: string;
+  send(alert: OracleAlert): Promise<void>;
+}
+
+const LEVEL_TAG: Record<AlertLevel, string> = {
+  INFO: 'info',
+  WARNING: 'WARN',
+  CRITICAL: 'CRIT',
+};
+
+export function createStdoutSink(): AlertSink {
+  return {
+    name: 'stdout',
+    async send(alert) {
+      console.log(`${alert.at} [${LEVEL_TAG[alert.level]}] ${alert.kind.padEnd(16)} ${alert.description} ${alert.feed} · ${alert.message}`);
+    },
+  };
+}
+
+export function createJsonLogSink(path: string): AlertSink {
+  const journal = createJournal(path);
+  return {
+    name: `json log ${path}`,
+    send: (alert) => journal.record({ ...alert }),
+  };
+}
+
+/**
+ * POSTs each alert as JSON; anything but a 2xx counts as a failure
+ */
+export function createWebhookSink(url: string, headers: Record<string, string> = {}): AlertSink {
+  return {
+    name: `webhook ${url}`,
+    async send(alert) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', ...headers },
+        body: JSON.stringify(alert),
+        signal: AbortSignal.timeout(10_000),
+      });
+      if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+    },
+  };
+}
+
+export function createSink(config: AlertSinkConfig): AlertSink {
+  switch (config.kind) {
+    case 'STDOUT':
+      return createStdoutSink();
+    case 'JSON_LOG':
+      return createJsonLogSink(config.path);
+    case 'WEBHOOK':
+      return createWebhookSink(config.url, config.headers);
+  }
+}
+
+/**
+ * Sends to every sink; returns the failures as "<sink>: <error>"
+ */
+export async function dispatchAlert(sinks: readonly AlertSink[], alert: OracleAlert): Promise<string[]> {
+  const results = await Promise.allSettled(sinks.map((sink) => sink.send(alert)));
+  return results.flatMap((result, i) =>
+    result.status === 'rejected' ? [`${sinks[i]!.name}: ${result.reason?.message ?? result.reason}`] : []
+  );
+}
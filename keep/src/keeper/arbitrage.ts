@@ -0,0 +1,271 @@
+import {
+  formatEther,
+  formatUnits,
+  maxUint256,
+  parseEventLogs,
+  parseUnits,
+  type Account,
+  type Address,
+  type Chain,
+  type Hash,
+  type PublicClient,
+  type Transport,
+  type WalletClient,
+} from 'viem';
+import { simulateEscrowAction, summarizeSimulation, type EscrowSimulation } from 'autodca-backtesting/escrowSimulation';
+import { ERC20_ABI, ESCROW_ABI } from './abis';
+import { BPS, spendBelow, valueInAsset1 } from './ladder';
+import { readFeed1e8, type EscrowPair, type ReferencePrice } from './reference';
+import type { EscrowDiscovery } from './discovery';
+import type { ArbitrageConfig } from './config';
+
+/**
+ * Ladder arbitrage
+ * Each tick: find new escrows, then for each one take the rungs priced below the
+ * reference, if what they're worth minus what they cost minus gas clears the
+ * profit threshold. With simulate on, amounts and gas come from a simulated
+ * buy() instead of estimateBuyOutput() and estimateGas.
+ */
+
+export type ArbStatus =
+  | 'NO_OPPORTUNITY'
+  | 'BELOW_THRESHOLD'
+  | 'WOULD_REVERT'
+  | 'DRY_RUN'
+  | 'BOUGHT'
+  | 'FAILED'
+  | 'ERROR';
+
+export interface ArbOpportunity {
+  amount1In: bigint;
+  amount0Out: bigint;
+  referencePrice: bigint; // 1e8
+  grossProfit: bigint; // asset1 units, at the reference price
+  gas: bigint;
+  gasCostUsd: number;
+  netProfitUsd: number;
+  simulation?: EscrowSimulation;
+}
+
+export interface ArbOutcome {
+  escrow: Address;
+  pair: string; // e.g. WETH/USDC
+  status: ArbStatus;
+  detail: string;
+  opportunity?: ArbOpportunity;
+  txHash?: Hash;
+}
+
+export interface ArbKeeper {
+  tick(): Promise<ArbOutcome[]>;
+}
+
+export interface ArbKeeperDeps {
+  config: ArbitrageConfig;
+  publicClient: PublicClient;
+  walletClient: WalletClient<Transport, Chain, Account>;
+  reference: ReferencePrice;
+  discovery: EscrowDiscovery;
+}
+
+// Gas for buy() can only be simulated once the escrow may pull asset1; until the
+// first approval it's guessed high from the rungs it would fill
+const BUY_BASE_GAS = 90_000n;
+const BUY_GAS_PER_RUNG = 35_000n;
+const DEADLINE_SECONDS = 300n;
+const NATIVE_FEED_MAX_AGE_SECONDS = 86_400;
+
+export function createArbitrageKeeper({ config, publicClient, walletClient, reference, discovery }: ArbKeeperDeps): ArbKeeper {
+  const keeper = walletClient.account.address;
+  const pairs = new Map<Address, EscrowPair & { label: string }>();
+  const watchOnly = config.escrows ? new Set(config.escrows.map((e) => e.toLowerCase())) : null;
+
+  const loadPair = async (escrow: Address) => {
+    const read = <F extends 'asset0' | 'asset1' | 'oracleAsset0Usd' | 'oracleAsset1Usd'>(functionName: F) =>
+      publicClient.readContract({ address: escrow, abi: ESCROW_ABI, functionName });
+    const [asset0, asset1, oracle0, oracle1] = await Promise.all([
+      read('asset0'),
+      read('asset1'),
+      read('oracleAsset0Usd'),
+      read('oracleAsset1Usd'),
+    ]);
+    const token = (address: Address, functionName: 'decimals' | 'symbol') =>
+      publicClient.readContract({ address, abi: ERC20_ABI, functionName });
+    const [decimals0, decimals1, symbol0, symbol1] = await Promise.all([
+      token(asset0, 'decimals'),
+      token(asset1, 'decimals'),
+      token(asset0, 'symbol'),
+      token(asset1, 'symbol'),
+    ]);
+
+    const pair = {
+      escrow,
+      asset0,
+      asset1,
+      oracle0,
+      oracle1,
+      decimals: { asset0: Number(decimals0), asset1: Number(decimals1) },
+      label: `${symbol0}/${symbol1}`,
+    };
+    pairs.set(escrow, pair);
+    return pair;
+  };
+
+  const nativeUsd = async (): Promise<number> => {
+    if (typeof config.nativeUsd === 'number') return config.nativeUsd;
+    return Number(await readFeed1e8(publicClient, config.nativeUsd, NATIVE_FEED_MAX_AGE_SECONDS)) / 1e8;
+  };
+
+  const evaluate = async (pair: EscrowPair, ethUsd: number): Promise<Omit<ArbOutcome, 'pair'>> => {
+    const { escrow, decimals } = pair;
+    const [orders, cursor, balance, allowance, quote] = await Promise.all([
+      publicClient.readContract({ address: escrow, abi: ESCROW_ABI, functionName: 'getSellOrders' }),
+      publicClient.readContract({ address: escrow, abi: ESCROW_ABI, functionName: 'lastExecuteOrder' }),
+      publicClient.readContract({ address: pair.asset1, abi: ERC20_ABI, functionName: 'balanceOf', args: [keeper] }),
+      publicClient.readContract({ address: pair.asset1, abi: ERC20_ABI, functionName: 'allowance', args: [keeper, escrow] }),
+      reference.quote(pair),
+    ]);
+
+    const maxSpend = parseUnits(String(config.maxSpend), decimals.asset1);
+    const budget = balance < maxSpend ? balance : maxSpend;
+    const amount1In = spendBelow(orders, Number(cursor), quote.price, decimals, budget);
+    if (amount1In === 0n) {
+      return {
+        escrow,
+        status: 'NO_OPPORTUNITY',
+        detail: budget === 0n ? 'no asset1 to spend' : `no rung below ${formatUnits(quote.price, 8)}`,
+      };
+    }
+
+    const [estimated0Out, filled] = await publicClient.readContract({
+      address: escrow,
+      abi: ESCROW_ABI,
+      functionName: 'estimateBuyOutput',
+      args: [amount1In],
+    });
+    if (estimated0Out === 0n) return { escrow, status: 'NO_OPPORTUNITY', detail: 'estimate fills nothing' };
+
+    const minAmount0Out = (estimated0Out * (BPS - BigInt(config.slippageBps))) / BPS;
+    let amount0Out = estimated0Out;
+    let amount1Spent = amount1In;
+    let simulation: EscrowSimulation | undefined;
+    let gas: bigint;
+    if (config.simulate) {
+      simulation = await simulateEscrowAction(publicClient, {
+        escrow,
+        account: keeper,
+        action: { kind: 'BUY', amount1In, minAmount0Out, deadline: await deadline() },
+      });
+      if (!simulation.ok) {
+        return {
+          escrow,
+          status: 'WOULD_REVERT',
+          detail: `buy ${formatUnits(amount1In, decimals.asset1)} ${summarizeSimulation(simulation)}`,
+        };
+      }
+      amount0Out = simulation.amountOut;
+      amount1Spent = simulation.amountIn;
+      gas = simulation.gasUsed + simulation.approvalGasUsed;
+    } else {
+      gas =
+        allowance >= amount1In
+          ? await publicClient.estimateContractGas({
+              address: escrow,
+              abi: ESCROW_ABI,
+              functionName: 'buy',
+              args: [amount1In, minAmount0Out, await deadline()],
+              account: keeper,
+            })
+          : (await publicClient.estimateContractGas({
+              address: pair.asset1,
+              abi: ERC20_ABI,
+              functionName: 'approve',
+              args: [escrow, maxUint256],
+              account: keeper,
+            })) +
+            BUY_BASE_GAS +
+            BUY_GAS_PER_RUNG * BigInt(filled.length);
+    }
+    const gasPrice = await publicClient.getGasPrice();
+    const gasCostUsd = Number(formatEther(gas * gasPrice)) * ethUsd;
+
+    const grossProfit = valueInAsset1(amount0Out, quote.price, decimals) - amount1Spent;
+    const netProfitUsd = Number(formatUnits(grossProfit, decimals.asset1)) * quote.asset1Usd - gasCostUsd;
+    const opportunity: ArbOpportunity = {
+      amount1In,
+      amount0Out,
+      referencePrice: quote.price,
+      grossProfit,
+      gas,
+      gasCostUsd,
+      netProfitUsd,
+      simulation,
+    };
+    const summary =
+      `${formatUnits(amount1Spent, decimals.asset1)} for ${formatUnits(amount0Out, decimals.asset0)} ` +
+      `(ref ${formatUnits(quote.price, 8)}), net $${netProfitUsd.toFixed(2)} after $${gasCostUsd.toFixed(2)} gas` +
+      (simulation ? ` · simulated: ${summarizeSimulation(simulation)}` : '');
+
+    if (netProfitUsd < config.minProfitUsd) return { escrow, status: 'BELOW_THRESHOLD', detail: summary, opportunity };
+    if (config.dryRun) return { escrow, status: 'DRY_RUN', detail: summary, opportunity };
+
+    if (allowance < amount1In) {
+      const approval = await walletClient.writeContract({
+        address: pair.asset1,
+        abi: ERC20_ABI,
+        functionName: 'approve',
+        args: [escrow, maxUint256],
+      });
+      const receipt = await publicClient.waitForTransactionReceipt({ hash: approval });
+      if (receipt.status !== 'success') {
+        return { escrow, status: 'FAILED', detail: 'approve reverted', opportunity, txHash: approval };
+      }
+    }
+
+    const txHash = await walletClient.writeContract({
+      address: escrow,
+      abi: ESCROW_ABI,
+      functionName: 'buy',
+      args: [amount1In, minAmount0Out, await deadline()],
+    });
+    const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+    if (receipt.status !== 'success') {
+      return { escrow, status: 'FAILED', detail: `buy reverted: ${summary}`, opportunity, txHash };
+    }
+
+    const [bought] = parseEventLogs({ abi: ESCROW_ABI, eventName: 'Buy', logs: receipt.logs });
+    const paid = bought ? bought.args.amount1In : amount1In;
+    const received = bought ? bought.args.amount0Out : amount0Out;
+    return {
+      escrow,
+      status: 'BOUGHT',
+      detail: `paid ${formatUnits(paid, decimals.asset1)} for ${formatUnits(received, decimals.asset0)}, expected net $${netProfitUsd.toFixed(2)}`,
+      opportunity,
+      txHash,
+    };
+  };
+
+  const deadline = async () => (await publicClient.getBlock()).timestamp + DEADLINE_SECONDS;
+
+  return {
+    async tick() {
+      await discovery.poll();
+      const escrows = discovery.escrows().filter((e) => !watchOnly || watchOnly.has(e.escrow.toLowerCase()));
+      const ethUsd = await nativeUsd();
+
+      // One escrow at a time: buys share the keeper's balance and nonce
+      const outcomes: ArbOutcome[] = [];
+      for (const { escrow } of escrows) {
+        let label = pairs.get(escrow)?.label ?? '?';
+        try {
+          const pair = pairs.get(escrow) ?? (await loadPair(escrow));
+          label = pair.label;
+          outcomes.push({ ...(await evaluate(pair, ethUsd)), pair: label });
+        } catch (err: any) {
+          outcomes.push({ escrow, pair: label, status: 'ERROR', detail: err?.shortMessage ?? err?.message ?? String(err) });
+        }
+      }
+      return outcomes;
+    },
+  };
+}
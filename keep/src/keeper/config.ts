@@ -0,0 +1,192 @@
+import { readFile } from 'node:fs/promises';
+import { isAddress, type Address } from 'viem';
+
+/**
+ * Keeper config files, one per mode. The key itself never goes in the file:
+ * it's read from the environment variable named by privateKeyEnv.
+ */
+
+export type KeeperMode = 'ARBITRAGE' | 'REBUY' | 'MONITOR';
+
+export type ReferenceConfig =
+  // Each escrow's own USD feeds, cross-rated the way the contract does it
+  | { kind: 'CHAINLINK'; maxAgeSeconds?: number }
+  // Uniswap V2 style pairs, keyed "<asset0>/<asset1>"
+  | { kind: 'AMM'; pairs: Record<string, Address> }
+  // JSON of asset1-per-asset0 prices keyed "<asset0>/<asset1>" or "*", re-read every tick
+  | { kind: 'FILE'; path: string };
+
+export interface BaseKeeperConfig {
+  rpcUrl: string;
+  pollSeconds: number;
+}
+
+/**
+ * Modes that send transactions
+ */
+export interface SigningKeeperConfig extends BaseKeeperConfig {
+  privateKeyEnv: string;
+  slippageBps: number; // On the estimated output
+  dryRun: boolean;
+  simulate: boolean; // Dry-run each transaction with eth_simulateV1 first; skip it if it would revert
+}
+
+/**
+ * Takes ladder rungs priced below a reference from anyone's escrows
+ */
+export interface ArbitrageConfig extends SigningKeeperConfig {
+  factory: Address;
+  fromBlock: bigint; // Factory deployment block; discovery starts here
+  escrows?: Address[]; // Only watch these
+  reference: ReferenceConfig;
+  minProfitUsd: number; // Net of gas
+  maxSpend: number; // Whole asset1 tokens per buy
+  logChunkBlocks: bigint;
+  asset1Usd: number; // USD per asset1 for AMM and FILE references (1 for stablecoin quotes)
+  nativeUsd: number | Address; // Gas token price: fixed, or a Chainlink feed
+}
+
+/**
+ * Sells asset0 back into the keeper's own escrows once enough of a ladder has
+ * filled, or once the rebuy price beats the oracle
+ */
+export interface RebuyConfig extends SigningKeeperConfig {
+  escrows: Address[]; // Must be owned by the keeper account
+  soldFraction?: number; // Trigger when this share of the ladder has sold (0-1)
+  minEdgeBps?: number; // Trigger when the rebuy start price beats spot by this much
+  maxSell?: number; // Whole asset0 tokens per sell; default the whole sold amount
+  deadlineSeconds: number;
+  journal: string; // JSON lines file, one entry per decision
+}
+
+export type AlertSinkConfig =
+  | { kind: 'STDOUT' }
+  | { kind: 'JSON_LOG'; path: string }
+  | { kind: 'WEBHOOK'; url: string; headers?: Record<string, string> };
+
+/**
+ * Watches the USD feeds behind known escrows and alerts before they go stale
+ */
+export interface MonitorConfig extends BaseKeeperConfig {
+  factory?: Address; // Escrows are discovered from it...
+  fromBlock: bigint;
+  logChunkBlocks: bigint;
+  escrows?: Address[]; // ...and/or listed here
+  revertAfterSeconds: number; // Escrow._oracleTo1e8 reverts at this age
+  warnBeforeSeconds: number; // Alert this long before a feed reaches it
+  deviationAlertBps: number; // Alert on a round-to-round move this large; 0 = off
+  historySize: number; // Rounds kept per feed
+  sinks: AlertSinkConfig[];
+}
+
+const BASE_DEFAULTS = {
+  privateKeyEnv: 'KEEPER_PRIVATE_KEY',
+  pollSeconds: 15,
+  slippageBps: 50,
+  dryRun: false,
+  simulate: false,
+};
+
+const ARBITRAGE_DEFAULTS = {
+  ...BASE_DEFAULTS,
+  fromBlock: 0n,
+  minProfitUsd: 1,
+  maxSpend: 10_000,
+  logChunkBlocks: 10_000n,
+  asset1Usd: 1,
+};
+
+const REBUY_DEFAULTS = {
+  ...BASE_DEFAULTS,
+  pollSeconds: 60,
+  deadlineSeconds: 300,
+  journal: 'rebuy-journal.jsonl',
+};
+
+const MONITOR_DEFAULTS = {
+  pollSeconds: 30,
+  fromBlock: 0n,
+  logChunkBlocks: 10_000n,
+  revertAfterSeconds: 3600, // Same hour as ORACLE_STALE_THRESHOLD in the frontend
+  warnBeforeSeconds: 600,
+  deviationAlertBps: 500,
+  historySize: 50,
+  sinks: [{ kind: 'STDOUT' }] as AlertSinkConfig[],
+};
+
+async function readConfig(path: string) {
+  const raw = JSON.parse(await readFile(path, 'utf8'));
+  const fail = (message: string): never => {
+    throw new Error(`${path}: ${message}`);
+  };
+
+  if (typeof raw.rpcUrl !== 'string') fail('rpcUrl is required');
+  for (const escrow of raw.escrows ?? []) {
+    if (!isAddress(escrow)) fail(`escrows: not an address: ${escrow}`);
+  }
+  return { raw, fail };
+}
+
+export async function loadArbitrageConfig(path: string): Promise<ArbitrageConfig> {
+  const { raw, fail } = await readConfig(path);
+
+  if (!isAddress(raw.factory ?? '')) fail('factory must be an address');
+  if (typeof raw.nativeUsd !== 'number' && !isAddress(raw.nativeUsd ?? '')) {
+    fail('nativeUsd must be a price or a Chainlink feed address');
+  }
+
+  const reference = raw.reference as ReferenceConfig | undefined;
+  if (reference?.kind === 'AMM') {
+    for (const [pair, address] of Object.entries(reference.pairs ?? {})) {
+      if (!isAddress(address)) fail(`reference.pairs.${pair}: not an address`);
+    }
+  } else if (reference?.kind === 'FILE') {
+    if (typeof reference.path !== 'string') fail('reference.path is required');
+  } else if (reference?.kind !== 'CHAINLINK') {
+    fail('reference.kind must be CHAINLINK, AMM or FILE');
+  }
+
+  return {
+    ...ARBITRAGE_DEFAULTS,
+    ...raw,
+    fromBlock: BigInt(raw.fromBlock ?? ARBITRAGE_DEFAULTS.fromBlock),
+    logChunkBlocks: BigInt(raw.logChunkBlocks ?? ARBITRAGE_DEFAULTS.logChunkBlocks),
+    reference: reference!,
+  };
+}
+
+export async function loadRebuyConfig(path: string): Promise<RebuyConfig> {
+  const { raw, fail } = await readConfig(path);
+
+  if (!Array.isArray(raw.escrows) || raw.escrows.length === 0) fail('escrows must list the escrows to watch');
+  if (raw.soldFraction === undefined && raw.minEdgeBps === undefined) {
+    fail('set soldFraction, minEdgeBps or both');
+  }
+  if (raw.soldFraction !== undefined && !(raw.soldFraction > 0 && raw.soldFraction <= 1)) {
+    fail('soldFraction must be in (0, 1]');
+  }
+
+  return { ...REBUY_DEFAULTS, ...raw };
+}
+
+export async function loadMonitorConfig(path: string): Promise<MonitorConfig> {
+  const { raw, fail } = await readConfig(path);
+
+  if (raw.factory !== undefined && !isAddress(raw.factory)) fail('factory must be an address');
+  if (raw.factory === undefined && !(raw.escrows?.length > 0)) fail('set factory, escrows or both');
+  for (const sink of raw.sinks ?? []) {
+    if (sink.kind === 'JSON_LOG' && typeof sink.path !== 'string') fail('JSON_LOG sink needs a path');
+    else if (sink.kind === 'WEBHOOK' && typeof sink.url !== 'string') fail('WEBHOOK sink needs a url');
+    else if (!['STDOUT', 'JSON_LOG', 'WEBHOOK'].includes(sink.kind)) fail(`unknown sink kind ${sink.kind}`);
+  }
+
+  const config: MonitorConfig = { ...MONITOR_DEFAULTS, ...raw };
+  if (config.warnBeforeSeconds >= config.revertAfterSeconds) {
+    fail('warnBeforeSeconds must be less than revertAfterSeconds');
+  }
+  return {
+    ...config,
+    fromBlock: BigInt(raw.fromBlock ?? MONITOR_DEFAULTS.fromBlock),
+    logChunkBlocks: BigInt(raw.logChunkBlocks ?? MONITOR_DEFAULTS.logChunkBlocks),
+  };
+}
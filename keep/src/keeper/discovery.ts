@@ -0,0 +1,58 @@
+import type { Address, PublicClient } from 'viem';
+import { ESCROW_FACTORY_ABI } from './abis';
+
+export interface DiscoveredEscrow {
+  escrow: Address;
+  owner: Address;
+  asset0: Address;
+  asset1: Address;
+  blockNumber: bigint;
+}
+
+export interface EscrowDiscovery {
+  /** Scan the blocks since the last poll; returns escrows created in them */
+  poll(): Promise<DiscoveredEscrow[]>;
+  escrows(): DiscoveredEscrow[];
+}
+
+/**
+ * Follows EscrowCreated events of a factory, in chunks small enough for public RPCs
+ */
+export function createEscrowDiscovery(
+  client: PublicClient,
+  factory: Address,
+  fromBlock: bigint,
+  chunkBlocks: bigint
+): EscrowDiscovery {
+  const known = new Map<Address, DiscoveredEscrow>();
+  let nextBlock = fromBlock;
+
+  return {
+    async poll() {
+      const head = await client.getBlockNumber();
+      const found: DiscoveredEscrow[] = [];
+
+      while (nextBlock <= head) {
+        const toBlock = nextBlock + chunkBlocks - 1n < head ? nextBlock + chunkBlocks - 1n : head;
+        const logs = await client.getContractEvents({
+          address: factory,
+          abi: ESCROW_FACTORY_ABI,
+          eventName: 'EscrowCreated',
+          fromBlock: nextBlock,
+          toBlock,
+          strict: true,
+        });
+
+        for (const log of logs) {
+          if (known.has(log.args.escrow)) continue;
+          const escrow = { ...log.args, blockNumber: log.blockNumber };
+          known.set(escrow.escrow, escrow);
+          found.push(escrow);
+        }
+        nextBlock = toBlock + 1n;
+      }
+      return found;
+    },
+    escrows: () => [...known.values()],
+  };
+}
@@ -0,0 +1,24 @@
+import { appendFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+/**
+ * Append-only decision log, one JSON object per line. Bigints are written as strings.
+ */
+export interface Journal {
+  record(entry: Record<string, unknown>): Promise<void>;
+}
+
+export function createJournal(path: string): Journal {
+  let ready: Promise<unknown> | null = null;
+
+  return {
+    async record(entry) {
+      ready ??= mkdir(dirname(path), { recursive: true });
+      await ready;
+      const line = JSON.stringify({ at: new Date().toISOString(), ...entry }, (_, value) =>
+        typeof value === 'bigint' ? value.toString() : value
+      );
+      await appendFile(path, `${line}\n`);
+    },
+  };
+}
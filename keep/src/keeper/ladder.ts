@@ -0,0 +1,109 @@
+/**
+ * Escrow ladder math in integer units, rounding exactly like Escrow.sol.
+ * Prices are asset1 per 1 asset0, scaled 1e8.
+ */
+
+export const PRICE_SCALE = 100_000_000n;
+export const BPS = 10_000n;
+
+export interface SellOrder {
+  amount: bigint; // asset0 units
+  filled: bigint;
+  price: bigint;
+}
+
+export interface PairDecimals {
+  asset0: number;
+  asset1: number;
+}
+
+/**
+ * asset1 needed to buy `amount0` at `price` (rounded up, as buy() charges)
+ */
+export function quoteAsset1InCeil(amount0: bigint, price: bigint, decimals: PairDecimals): bigint {
+  const num = amount0 * price * 10n ** BigInt(decimals.asset1);
+  const den = 10n ** BigInt(decimals.asset0) * PRICE_SCALE;
+  return (num + den - 1n) / den;
+}
+
+/**
+ * asset1 value of `amount0` at `price` (rounded down)
+ */
+export function valueInAsset1(amount0: bigint, price: bigint, decimals: PairDecimals): bigint {
+  return (amount0 * price * 10n ** BigInt(decimals.asset1)) / (10n ** BigInt(decimals.asset0) * PRICE_SCALE);
+}
+
+/**
+ * asset1 to spend taking every rung priced below `limitPrice`, capped at `maxSpend`.
+ * buy() fills rungs in order from the cursor, so the walk stops at the first rung
+ * that isn't cheap: anything past it would have to be paid for at a loss.
+ */
+export function spendBelow(
+  orders: readonly SellOrder[],
+  cursor: number,
+  limitPrice: bigint,
+  decimals: PairDecimals,
+  maxSpend: bigint
+): bigint {
+  let spend = 0n;
+  for (let i = cursor; i < orders.length && spend < maxSpend; i++) {
+    const order = orders[i]!;
+    const remaining = order.amount - order.filled;
+    if (remaining === 0n) continue;
+    if (order.price >= limitPrice) break;
+    spend += quoteAsset1InCeil(remaining, order.price, decimals);
+  }
+  return spend < maxSpend ? spend : maxSpend;
+}
+
+/**
+ * First price of the rebuy ladder: the average sell price less take-profit
+ */
+export function rebuyStartPrice(averageSellPrice: bigint, takeProfitBps: bigint): bigint {
+  return (averageSellPrice * (BPS - takeProfitBps)) / BPS;
+}
+
+export interface RebuyQuote {
+  amount0In: bigint; // What sell() keeps; the rest is refunded
+  amount1Out: bigint;
+}
+
+/**
+ * What sell(amount0In) pays out: each filled rung is bought back at a price that
+ * starts at rebuyStartPrice and steps down like the sell ladder stepped up.
+ * Throws where the contract would revert.
+ */
+export function quoteRebuy(
+  orders: readonly SellOrder[],
+  averageSellPrice: bigint,
+  params: { priceDeviationBps: bigint; takeProfitBps: bigint; priceMultiplierBps: bigint },
+  amount0In: bigint,
+  decimals: PairDecimals
+): RebuyQuote {
+  const start = rebuyStartPrice(averageSellPrice, params.takeProfitBps);
+  let delta = (averageSellPrice * params.priceDeviationBps) / BPS;
+  let price = start;
+  if (start === 0n) throw new Error('rebuy start=0');
+  if (delta >= start) throw new Error('delta>=start');
+
+  let remaining = amount0In;
+  let amount1Out = 0n;
+  for (let i = 0; i < orders.length && remaining > 0n; i++) {
+    const sold = orders[i]!.filled;
+    if (sold !== 0n) {
+      const use0 = remaining > sold ? sold : remaining;
+      const out1 = valueInAsset1(use0, price, decimals);
+      if (out1 === 0n) break;
+      remaining -= use0;
+      amount1Out += out1;
+    }
+
+    if (i + 1 < orders.length) {
+      delta = (delta * params.priceMultiplierBps) / BPS;
+      if (price <= delta) throw new Error('price underflow');
+      price -= delta;
+    }
+  }
+
+  return { amount0In: amount0In - remaining, amount1Out };
+}
@@ -0,0 +1,324 @@
+import { formatUnits, getAddress, type Address, type PublicClient } from 'viem';
+import { CHAINLINK_AGGREGATOR_ABI, ESCROW_ABI } from './abis';
+import { dispatchAlert, type AlertKind, type AlertLevel, type AlertSink, type OracleAlert } from './alerts';
+import type { EscrowDiscovery } from './discovery';
+import type { MonitorConfig } from './config';
+
+/**
+ * Oracle health
+ * Escrow._oracleTo1e8 reverts once a feed is revertAfterSeconds old, answered in
+ * an earlier round, or non-positive, and with it every buy() and sell() on the
+ * escrows that read it. Each tick reads every distinct USD feed of the known
+ * escrows, keeps its recent rounds, and alerts when a feed's status changes:
+ * first when it's about to go stale, again when it does, and once it recovers.
+ */
+
+export type FeedStatus = 'OK' | 'STALE_SOON' | 'STALE' | 'INCOMPLETE_ROUND' | 'INVALID_ANSWER' | 'READ_FAILED';
+
+export interface FeedRound {
+  roundId: bigint;
+  answer: bigint;
+  updatedAt: number; // Unix seconds
+}
+
+/**
+ * Seconds between consecutive rounds in the history
+ */
+export interface Heartbeat {
+  last: number;
+  mean: number;
+  max: number;
+}
+
+export interface FeedHealth {
+  feed: Address;
+  description: string;
+  decimals: number;
+  escrows: Address[];
+  status: FeedStatus;
+  latest?: FeedRound;
+  ageSeconds?: number;
+  secondsUntilRevert?: number;
+  heartbeat?: Heartbeat;
+  lastDeviationBps?: number; // Latest round vs the one before
+  maxDeviationBps?: number; // Over the history
+  rounds: number; // Kept in the history
+  error?: string;
+}
+
+export interface MonitorReport {
+  feeds: FeedHealth[];
+  alerts: OracleAlert[];
+  errors: string[]; // Escrows that couldn't be read, sinks that failed
+}
+
+export interface OracleMonitor {
+  tick(): Promise<MonitorReport>;
+}
+
+export interface OracleMonitorDeps {
+  config: MonitorConfig;
+  publicClient: PublicClient;
+  discovery: EscrowDiscovery | null;
+  sinks: AlertSink[];
+}
+
+interface FeedState {
+  feed: Address;
+  description: string;
+  decimals: number;
+  escrows: Set<Address>;
+  history: FeedRound[]; // Oldest first
+  status: FeedStatus | null; // null until the first read
+  slowHeartbeat: boolean;
+}
+
+const ALERT_LEVEL: Record<AlertKind, AlertLevel> = {
+  STALE_SOON: 'WARNING',
+  STALE: 'CRITICAL',
+  INCOMPLETE_ROUND: 'CRITICAL',
+  INVALID_ANSWER: 'CRITICAL',
+  READ_FAILED: 'WARNING',
+  SLOW_HEARTBEAT: 'WARNING',
+  DEVIATION: 'INFO',
+  RECOVERED: 'INFO',
+};
+
+export function heartbeatOf(history: readonly FeedRound[]): Heartbeat | undefined {
+  if (history.length < 2) return undefined;
+  const gaps = history.slice(1).map((round, i) => round.updatedAt - history[i]!.updatedAt);
+  return {
+    last: gaps[gaps.length - 1]!,
+    mean: Math.round(gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length),
+    max: Math.max(...gaps),
+  };
+}
+
+export function deviationBps(from: bigint, to: bigint): number {
+  if (from <= 0n) return 0;
+  const diff = to > from ? to - from : from - to;
+  return Number((diff * 10_000n) / from);
+}
+
+export function createOracleMonitor({ config, publicClient, discovery, sinks }: OracleMonitorDeps): OracleMonitor {
+  const feeds = new Map<string, FeedState>();
+  const escrowFeeds = new Map<Address, [Address, Address]>();
+
+  const loadEscrow = async (escrow: Address) => {
+    if (escrowFeeds.has(escrow)) return;
+    const [oracle0, oracle1] = await Promise.all([
+      publicClient.readContract({ address: escrow, abi: ESCROW_ABI, functionName: 'oracleAsset0Usd' }),
+      publicClient.readContract({ address: escrow, abi: ESCROW_ABI, functionName: 'oracleAsset1Usd' }),
+    ]);
+    escrowFeeds.set(escrow, [oracle0, oracle1]);
+
+    for (const feed of [oracle0, oracle1]) {
+      const state = feeds.get(feed.toLowerCase()) ?? (await loadFeed(feed));
+      state.escrows.add(escrow);
+    }
+  };
+
+  const loadFeed = async (feed: Address): Promise<FeedState> => {
+    const [decimals, description] = await Promise.all([
+      publicClient.readContract({ address: feed, abi: CHAINLINK_AGGREGATOR_ABI, functionName: 'decimals' }),
+      publicClient
+        .readContract({ address: feed, abi: CHAINLINK_AGGREGATOR_ABI, functionName: 'description' })
+        .catch(() => feed.slice(0, 10)),
+    ]);
+    const state: FeedState = {
+      feed,
+      description,
+      decimals: Number(decimals),
+      escrows: new Set(),
+      history: await backfill(feed),
+      status: null,
+      slowHeartbeat: false,
+    };
+    feeds.set(feed.toLowerCase(), state);
+    return state;
+  };
+
+  // Heartbeat needs more than one round, so start from the feed's own recent past.
+  // Stops at a phase boundary, or on feeds (like the mocks) that only keep the latest round
+  const backfill = async (feed: Address): Promise<FeedRound[]> => {
+    const rounds: FeedRound[] = [];
+    try {
+      const [latestId, answer, , updatedAt] = await publicClient.readContract({
+        address: feed,
+        abi: CHAINLINK_AGGREGATOR_ABI,
+        functionName: 'latestRoundData',
+      });
+      rounds.push({ roundId: latestId, answer, updatedAt: Number(updatedAt) });
+
+      for (let roundId = latestId - 1n; roundId > 0n && rounds.length < config.historySize; roundId--) {
+        const [id, answer, , updatedAt] = await publicClient.readContract({
+          address: feed,
+          abi: CHAINLINK_AGGREGATOR_ABI,
+          functionName: 'getRoundData',
+          args: [roundId],
+        });
+        if (id !== roundId || updatedAt === 0n) break;
+        rounds.unshift({ roundId: id, answer, updatedAt: Number(updatedAt) });
+      }
+    } catch {
+      // Whatever was read is still history
+    }
+    return rounds;
+  };
+
+  const alert = (state: FeedState, kind: AlertKind, message: string, extra: Partial<OracleAlert> = {}): OracleAlert => ({
+    at: new Date().toISOString(),
+    level: ALERT_LEVEL[kind],
+    kind,
+    feed: state.feed,
+    description: state.description,
+    escrows: [...state.escrows],
+    message,
+    ...extra,
+  });
+
+  const check = async (state: FeedState, now: number): Promise<{ health: FeedHealth; alerts: OracleAlert[] }> => {
+    const alerts: OracleAlert[] = [];
+    const price = (answer: bigint) => formatUnits(answer, state.decimals);
+    const escrowCount = `${state.escrows.size} escrow${state.escrows.size === 1 ? '' : 's'}`;
+    const health: FeedHealth = {
+      feed: state.feed,
+      description: state.description,
+      decimals: state.decimals,
+      escrows: [...state.escrows],
+      status: 'OK',
+      rounds: state.history.length,
+    };
+
+    let answeredInRound: bigint;
+    let latest: FeedRound;
+    try {
+      const [roundId, answer, , updatedAt, answered] = await publicClient.readContract({
+        address: state.feed,
+        abi: CHAINLINK_AGGREGATOR_ABI,
+        functionName: 'latestRoundData',
+      });
+      latest = { roundId, answer, updatedAt: Number(updatedAt) };
+      answeredInRound = answered;
+    } catch (err: any) {
+      health.status = 'READ_FAILED';
+      health.error = err?.shortMessage ?? err?.message ?? String(err);
+      if (state.status !== 'READ_FAILED') {
+        alerts.push(alert(state, 'READ_FAILED', `latestRoundData failed: ${health.error}`));
+      }
+      state.status = 'READ_FAILED';
+      return { health, alerts };
+    }
+
+    // A round we haven't seen: record it, and flag a large move from the one before
+    const previous = state.history[state.history.length - 1];
+    if (!previous || latest.roundId > previous.roundId) {
+      state.history.push(latest);
+      if (state.history.length > config.historySize) state.history.shift();
+
+      if (previous && config.deviationAlertBps > 0) {
+        const moved = deviationBps(previous.answer, latest.answer);
+        if (moved >= config.deviationAlertBps) {
+          alerts.push(
+            alert(state, 'DEVIATION', `${price(previous.answer)} -> ${price(latest.answer)} (${moved} bps) in round ${latest.roundId}`, {
+              roundId: latest.roundId.toString(),
+              price: price(latest.answer),
+              deviationBps: moved,
+            })
+          );
+        }
+      }
+    }
+
+    const ageSeconds = Math.max(0, now - latest.updatedAt);
+    const secondsUntilRevert = Math.max(0, config.revertAfterSeconds - ageSeconds);
+    const deviations = state.history.slice(1).map((round, i) => deviationBps(state.history[i]!.answer, round.answer));
+    Object.assign(health, {
+      latest,
+      ageSeconds,
+      secondsUntilRevert,
+      heartbeat: heartbeatOf(state.history),
+      lastDeviationBps: deviations[deviations.length - 1],
+      maxDeviationBps: deviations.length > 0 ? Math.max(...deviations) : undefined,
+      rounds: state.history.length,
+    });
+
+    // Same checks, same order as Escrow._oracleTo1e8
+    let status: Exclude<FeedStatus, 'READ_FAILED'> = 'OK';
+    if (latest.answer <= 0n) status = 'INVALID_ANSWER';
+    else if (latest.updatedAt === 0 || answeredInRound < latest.roundId) status = 'INCOMPLETE_ROUND';
+    else if (ageSeconds >= config.revertAfterSeconds) status = 'STALE';
+    else if (ageSeconds >= config.revertAfterSeconds - config.warnBeforeSeconds) status = 'STALE_SOON';
+    health.status = status;
+
+    const context = {
+      roundId: latest.roundId.toString(),
+      price: price(latest.answer),
+      ageSeconds,
+      secondsUntilRevert,
+    };
+    if (status !== state.status) {
+      if (status === 'OK') {
+        if (state.status !== null) {
+          alerts.push(alert(state, 'RECOVERED', `round ${latest.roundId} at ${context.price}, ${ageSeconds}s old`, context));
+        }
+      } else {
+        const message = {
+          STALE_SOON: `last update ${ageSeconds}s ago; buy() and sell() on ${escrowCount} revert in ${secondsUntilRevert}s`,
+          STALE: `last update ${ageSeconds}s ago; buy() and sell() on ${escrowCount} revert`,
+          INCOMPLETE_ROUND: `answeredInRound ${answeredInRound} < roundId ${latest.roundId}; buy() and sell() on ${escrowCount} revert`,
+          INVALID_ANSWER: `answer ${latest.answer}; buy() and sell() on ${escrowCount} revert`,
+        }[status];
+        alerts.push(alert(state, status, message, context));
+      }
+      state.status = status;
+    }
+
+    // Rounds further apart than the escrows tolerate will freeze them between updates
+    const slow = (health.heartbeat?.max ?? 0) >= config.revertAfterSeconds;
+    if (slow && !state.slowHeartbeat) {
+      const { max, mean } = health.heartbeat!;
+      alerts.push(
+        alert(state, 'SLOW_HEARTBEAT', `rounds up to ${max}s apart (mean ${mean}s); escrows revert at ${config.revertAfterSeconds}s`, context)
+      );
+    }
+    state.slowHeartbeat = slow;
+
+    return { health, alerts };
+  };
+
+  return {
+    async tick() {
+      const errors: string[] = [];
+      const known = new Set<Address>((config.escrows ?? []).map((escrow) => getAddress(escrow)));
+      if (discovery) {
+        await discovery.poll();
+        for (const { escrow } of discovery.escrows()) known.add(escrow);
+      }
+      for (const escrow of known) {
+        try {
+          await loadEscrow(escrow);
+        } catch (err: any) {
+          // Retried next tick
+          errors.push(`escrow ${escrow}: ${err?.shortMessage ?? err?.message ?? err}`);
+        }
+      }
+
+      // The next buy() lands in a block stamped about now; on a chain that's ahead
+      // of the wall clock (anvil after evm_increaseTime), the block is what counts
+      const block = await publicClient.getBlock();
+      const now = Math.max(Number(block.timestamp), Math.floor(Date.now() / 1000));
+
+      const report: MonitorReport = { feeds: [], alerts: [], errors };
+      for (const state of feeds.values()) {
+        const { health, alerts } = await check(state, now);
+        report.feeds.push(health);
+        for (const sent of alerts) {
+          report.alerts.push(sent);
+          errors.push(...(await dispatchAlert(sinks, sent)));
+        }
+      }
+      return report;
+    },
+  };
+}
@@ -0,0 +1,250 @@
+import {
+  formatUnits,
+  parseEventLogs,
+  parseUnits,
+  type Account,
+  type Address,
+  type Chain,
+  type Hash,
+  type PublicClient,
+  type Transport,
+  type WalletClient,
+} from 'viem';
+import { simulateEscrowAction, summarizeSimulation } from 'autodca-backtesting/escrowSimulation';
+import { ERC20_ABI, ESCROW_ABI } from './abis';
+import { BPS, quoteRebuy, rebuyStartPrice, type PairDecimals } from './ladder';
+import type { Journal } from './journal';
+import type { RebuyConfig } from './config';
+
+/**
+ * Owner-side auto-rebuy
+ * Watches the keeper's own escrows and calls sell() once enough of a ladder has
+ * filled, or once the rebuy price beats the oracle spot. Every decision, holds
+ * included, goes to the journal. With simulate on, a sell() that would revert
+ * is skipped, and the simulated outcome is journalled with the decision.
+ */
+
+export type RebuyAction = 'HOLD' | 'SKIP' | 'DRY_RUN' | 'SOLD' | 'FAILED' | 'ERROR';
+
+/**
+ * Where an escrow stood when the decision was made, in whole tokens
+ */
+export interface RebuyState {
+  soldAsset0: string;
+  soldFraction: number; // Of the current ladder
+  averageSellPrice: string;
+  rebuyPrice: string; // Start of the rebuy ladder
+  spotPrice: string;
+  amount0In?: string;
+  expectedAmount1Out?: string;
+  minAmount1Out?: string;
+  simulatedAmount1Out?: string;
+  simulation?: string; // summarizeSimulation()
+}
+
+export interface RebuyDecision {
+  escrow: Address;
+  pair: string; // e.g. WETH/USDC
+  action: RebuyAction;
+  reason: string;
+  state?: RebuyState;
+  txHash?: Hash;
+}
+
+export interface RebuyKeeper {
+  tick(): Promise<RebuyDecision[]>;
+}
+
+export interface RebuyKeeperDeps {
+  config: RebuyConfig;
+  publicClient: PublicClient;
+  walletClient: WalletClient<Transport, Chain, Account>;
+  journal: Journal;
+}
+
+interface OwnedEscrow {
+  escrow: Address;
+  owner: Address;
+  asset0: Address;
+  asset1: Address;
+  decimals: PairDecimals;
+  label: string;
+  params: { priceDeviationBps: bigint; takeProfitBps: bigint; priceMultiplierBps: bigint };
+}
+
+export function createRebuyKeeper({ config, publicClient, walletClient, journal }: RebuyKeeperDeps): RebuyKeeper {
+  const keeper = walletClient.account.address;
+  const escrows = new Map<Address, OwnedEscrow>();
+
+  const load = async (escrow: Address): Promise<OwnedEscrow> => {
+    const known = escrows.get(escrow);
+    if (known) return known;
+
+    const [owner, asset0, asset1, params] = await Promise.all([
+      publicClient.readContract({ address: escrow, abi: ESCROW_ABI, functionName: 'owner' }),
+      publicClient.readContract({ address: escrow, abi: ESCROW_ABI, functionName: 'asset0' }),
+      publicClient.readContract({ address: escrow, abi: ESCROW_ABI, functionName: 'asset1' }),
+      publicClient.readContract({ address: escrow, abi: ESCROW_ABI, functionName: 'params' }),
+    ]);
+    const token = (address: Address, functionName: 'decimals' | 'symbol') =>
+      publicClient.readContract({ address, abi: ERC20_ABI, functionName });
+    const [decimals0, decimals1, symbol0, symbol1] = await Promise.all([
+      token(asset0, 'decimals'),
+      token(asset1, 'decimals'),
+      token(asset0, 'symbol'),
+      token(asset1, 'symbol'),
+    ]);
+
+    const [, priceDeviationBps, takeProfitBps, priceMultiplierBps] = params;
+    const loaded: OwnedEscrow = {
+      escrow,
+      owner,
+      asset0,
+      asset1,
+      decimals: { asset0: Number(decimals0), asset1: Number(decimals1) },
+      label: `${symbol0}/${symbol1}`,
+      params: { priceDeviationBps, takeProfitBps, priceMultiplierBps },
+    };
+    escrows.set(escrow, loaded);
+    return loaded;
+  };
+
+  const decide = async (target: OwnedEscrow): Promise<Omit<RebuyDecision, 'pair'>> => {
+    const { escrow, decimals } = target;
+    if (target.owner.toLowerCase() !== keeper.toLowerCase()) {
+      return { escrow, action: 'SKIP', reason: `owned by ${target.owner}, not the keeper` };
+    }
+
+    const [orders, sold, averageSellPrice, balance0, allowance0] = await Promise.all([
+      publicClient.readContract({ address: escrow, abi: ESCROW_ABI, functionName: 'getSellOrders' }),
+      publicClient.readContract({ address: escrow, abi: ESCROW_ABI, functionName: 'getTotalSoldAsset0' }),
+      publicClient.readContract({ address: escrow, abi: ESCROW_ABI, functionName: 'getAverageSellPrice' }),
+      publicClient.readContract({ address: target.asset0, abi: ERC20_ABI, functionName: 'balanceOf', args: [keeper] }),
+      publicClient.readContract({ address: target.asset0, abi: ERC20_ABI, functionName: 'allowance', args: [keeper, escrow] }),
+    ]);
+    if (sold === 0n) return { escrow, action: 'HOLD', reason: 'nothing sold yet' };
+
+    // sell() resets the ladder from the oracle, so it reverts on a stale feed too
+    let spotPrice: bigint;
+    try {
+      spotPrice = await publicClient.readContract({ address: escrow, abi: ESCROW_ABI, functionName: 'getCurrentSpotPrice' });
+    } catch (err: any) {
+      return { escrow, action: 'SKIP', reason: `oracle unavailable: ${err?.shortMessage ?? err?.message ?? err}` };
+    }
+
+    const ladderTotal = orders.reduce((sum, o) => sum + o.amount, 0n);
+    const soldFraction = ladderTotal > 0n ? Number((sold * 1_000_000n) / ladderTotal) / 1_000_000 : 0;
+    const rebuyPrice = rebuyStartPrice(averageSellPrice, target.params.takeProfitBps);
+    const state: RebuyState = {
+      soldAsset0: formatUnits(sold, decimals.asset0),
+      soldFraction,
+      averageSellPrice: formatUnits(averageSellPrice, 8),
+      rebuyPrice: formatUnits(rebuyPrice, 8),
+      spotPrice: formatUnits(spotPrice, 8),
+    };
+
+    const triggers: string[] = [];
+    if (config.soldFraction !== undefined && soldFraction >= config.soldFraction) {
+      triggers.push(`${(soldFraction * 100).toFixed(1)}% of ladder sold`);
+    }
+    if (config.minEdgeBps !== undefined && rebuyPrice * BPS >= spotPrice * (BPS + BigInt(config.minEdgeBps))) {
+      triggers.push(`rebuy ${state.rebuyPrice} beats spot ${state.spotPrice}`);
+    }
+    if (triggers.length === 0) {
+      return {
+        escrow,
+        action: 'HOLD',
+        reason: `${(soldFraction * 100).toFixed(1)}% sold, rebuy ${state.rebuyPrice} vs spot ${state.spotPrice}`,
+        state,
+      };
+    }
+
+    const maxSell = config.maxSell !== undefined ? parseUnits(String(config.maxSell), decimals.asset0) : sold;
+    let amount0In = sold;
+    if (balance0 < amount0In) amount0In = balance0;
+    if (maxSell < amount0In) amount0In = maxSell;
+    if (amount0In === 0n) {
+      return { escrow, action: 'SKIP', reason: `${triggers.join(', ')}, but no asset0 in the keeper wallet`, state };
+    }
+
+    const quote = quoteRebuy(orders, averageSellPrice, target.params, amount0In, decimals);
+    if (quote.amount1Out === 0n) return { escrow, action: 'SKIP', reason: 'rebuy would pay out nothing', state };
+
+    const minAmount1Out = (quote.amount1Out * (BPS - BigInt(config.slippageBps))) / BPS;
+    state.amount0In = formatUnits(quote.amount0In, decimals.asset0);
+    state.expectedAmount1Out = formatUnits(quote.amount1Out, decimals.asset1);
+    state.minAmount1Out = formatUnits(minAmount1Out, decimals.asset1);
+    const reason = `${triggers.join(', ')}: sell ${state.amount0In} for ${state.expectedAmount1Out}`;
+    const deadline = (await publicClient.getBlock()).timestamp + BigInt(config.deadlineSeconds);
+
+    if (config.simulate) {
+      const simulation = await simulateEscrowAction(publicClient, {
+        escrow,
+        account: keeper,
+        action: { kind: 'SELL', amount0In: quote.amount0In, minAmount1Out, deadline },
+      });
+      state.simulation = summarizeSimulation(simulation);
+      if (!simulation.ok) return { escrow, action: 'SKIP', reason: `${reason}, but sell ${state.simulation}`, state };
+      state.simulatedAmount1Out = formatUnits(simulation.amountOut, decimals.asset1);
+    }
+
+    if (config.dryRun) return { escrow, action: 'DRY_RUN', reason, state };
+
+    if (allowance0 < quote.amount0In) {
+      const approval = await walletClient.writeContract({
+        address: target.asset0,
+        abi: ERC20_ABI,
+        functionName: 'approve',
+        args: [escrow, quote.amount0In],
+      });
+      const receipt = await publicClient.waitForTransactionReceipt({ hash: approval });
+      if (receipt.status !== 'success') {
+        return { escrow, action: 'FAILED', reason: 'approve reverted', state, txHash: approval };
+      }
+    }
+
+    const txHash = await walletClient.writeContract({
+      address: escrow,
+      abi: ESCROW_ABI,
+      functionName: 'sell',
+      args: [quote.amount0In, minAmount1Out, deadline],
+    });
+    const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+    if (receipt.status !== 'success') {
+      return { escrow, action: 'FAILED', reason: `sell reverted: ${reason}`, state, txHash };
+    }
+
+    const [sale] = parseEventLogs({ abi: ESCROW_ABI, eventName: 'Sell', logs: receipt.logs });
+    const received = sale ? sale.args.amount1Out : quote.amount1Out;
+    return {
+      escrow,
+      action: 'SOLD',
+      reason: `${triggers.join(', ')}: sold ${state.amount0In} for ${formatUnits(received, decimals.asset1)}, ladder reset`,
+      state,
+      txHash,
+    };
+  };
+
+  return {
+    async tick() {
+      const decisions: RebuyDecision[] = [];
+      for (const escrow of config.escrows) {
+        let decision: RebuyDecision;
+        try {
+          const target = await load(escrow);
+          decision = { ...(await decide(target)), pair: target.label };
+        } catch (err: any) {
+          decision = {
+            escrow,
+            pair: escrows.get(escrow)?.label ?? '?',
+            action: 'ERROR',
+            reason: err?.shortMessage ?? err?.message ?? String(err),
+          };
+        }
+        await journal.record({ ...decision, dryRun: config.dryRun });
+        decisions.push(decision);
+      }
+      return decisions;
+    },
+  };
+}
@@ -0,0 +1,123 @@
+import { readFile } from 'node:fs/promises';
+import type { Address, PublicClient } from 'viem';
+import { CHAINLINK_AGGREGATOR_ABI, UNISWAP_V2_PAIR_ABI } from './abis';
+import { PRICE_SCALE, type PairDecimals } from './ladder';
+import type { ReferenceConfig } from './config';
+
+/**
+ * Reference prices: what a ladder's asset0 is really worth, in asset1.
+ * A rung priced below this is an arbitrage.
+ */
+
+export interface EscrowPair {
+  escrow: Address;
+  asset0: Address;
+  asset1: Address;
+  decimals: PairDecimals;
+  oracle0: Address; // The escrow's own USD feeds
+  oracle1: Address;
+}
+
+export interface ReferenceQuote {
+  price: bigint; // asset1 per asset0, 1e8
+  asset1Usd: number;
+}
+
+export interface ReferencePrice {
+  label: string;
+  quote(pair: EscrowPair): Promise<ReferenceQuote>;
+}
+
+export function pairKey(asset0: Address, asset1: Address): string {
+  return `${asset0}/${asset1}`.toLowerCase();
+}
+
+export function createReference(
+  config: ReferenceConfig,
+  client: PublicClient,
+  asset1Usd: number
+): ReferencePrice {
+  switch (config.kind) {
+    case 'CHAINLINK':
+      return createChainlinkReference(client, config.maxAgeSeconds ?? 3600);
+    case 'AMM':
+      return createAmmReference(client, config.pairs, asset1Usd);
+    case 'FILE':
+      return createFileReference(config.path, asset1Usd);
+  }
+}
+
+/**
+ * Latest answer of a Chainlink feed, scaled to 1e8; throws when stale
+ */
+export async function readFeed1e8(client: PublicClient, feed: Address, maxAgeSeconds: number): Promise<bigint> {
+  const [decimals, [roundId, answer, , updatedAt, answeredInRound]] = await Promise.all([
+    client.readContract({ address: feed, abi: CHAINLINK_AGGREGATOR_ABI, functionName: 'decimals' }),
+    client.readContract({ address: feed, abi: CHAINLINK_AGGREGATOR_ABI, functionName: 'latestRoundData' }),
+  ]);
+
+  if (answer <= 0n) throw new Error(`feed ${feed} answered ${answer}`);
+  if (answeredInRound < roundId) throw new Error(`feed ${feed} is stale`);
+
+  const block = await client.getBlock();
+  if (block.timestamp - updatedAt >= BigInt(maxAgeSeconds)) {
+    throw new Error(`feed ${feed} last updated ${block.timestamp - updatedAt}s ago`);
+  }
+
+  return decimals >= 8 ? answer / 10n ** BigInt(decimals - 8) : answer * 10n ** BigInt(8 - decimals);
+}
+
+function createChainlinkReference(client: PublicClient, maxAgeSeconds: number): ReferencePrice {
+  return {
+    label: 'CHAINLINK [ESCROW FEEDS]',
+    async quote(pair) {
+      const [usd0, usd1] = await Promise.all([
+        readFeed1e8(client, pair.oracle0, maxAgeSeconds),
+        readFeed1e8(client, pair.oracle1, maxAgeSeconds),
+      ]);
+      return { price: (usd0 * PRICE_SCALE) / usd1, asset1Usd: Number(usd1) / Number(PRICE_SCALE) };
+    },
+  };
+}
+
+function createAmmReference(client: PublicClient, pairs: Record<string, Address>, asset1Usd: number): ReferencePrice {
+  const pools = new Map(Object.entries(pairs).map(([key, pool]) => [key.toLowerCase(), pool]));
+
+  return {
+    label: 'AMM [UNISWAP_V2 RESERVES]',
+    async quote(pair) {
+      const pool = pools.get(pairKey(pair.asset0, pair.asset1));
+      if (!pool) throw new Error(`no AMM pair configured for ${pairKey(pair.asset0, pair.asset1)}`);
+
+      const [token0, [reserve0, reserve1]] = await Promise.all([
+        client.readContract({ address: pool, abi: UNISWAP_V2_PAIR_ABI, functionName: 'token0' }),
+        client.readContract({ address: pool, abi: UNISWAP_V2_PAIR_ABI, functionName: 'getReserves' }),
+      ]);
+      const [reserveAsset0, reserveAsset1] =
+        token0.toLowerCase() === pair.asset0.toLowerCase() ? [reserve0, reserve1] : [reserve1, reserve0];
+      if (reserveAsset0 === 0n) throw new Error(`AMM pair ${pool} has no liquidity`);
+
+      // Mid price, adjusted from raw units to whole tokens
+      const price =
+        (reserveAsset1 * 10n ** BigInt(pair.decimals.asset0) * PRICE_SCALE) /
+        (reserveAsset0 * 10n ** BigInt(pair.decimals.asset1));
+      return { price, asset1Usd };
+    },
+  };
+}
+
+function createFileReference(path: string, asset1Usd: number): ReferencePrice {
+  return {
+    label: `FILE [${path}]`,
+    async quote(pair) {
+      const prices: Record<string, number> = JSON.parse(await readFile(path, 'utf8'));
+      const key = pairKey(pair.asset0, pair.asset1);
+      const entry = Object.entries(prices).find(([k]) => k.toLowerCase() === key);
+      const price = entry?.[1] ?? prices['*'];
+      if (typeof price !== 'number' || !(price > 0)) {
+        throw new Error(`${path}: no price for ${key}`);
+      }
+      return { price: BigInt(Math.round(price * Number(PRICE_SCALE))), asset1Usd };
+    },
+  };
+}
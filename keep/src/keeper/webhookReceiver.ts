@@ -0,0 +1,44 @@
+import { createServer } from 'node:http';
+import { parseArgs } from 'node:util';
+
+/**
+ * Local stand-in for a webhook endpoint: prints every JSON body POSTed to it.
+ *
+ *   bun run src/keeper/webhookReceiver.ts [--port 8787] [--fail]
+ *
+ * --fail answers 500, to see the monitor report a failing sink.
+ */
+
+const { values: args } = parseArgs({
+  args: process.argv.slice(2),
+  options: {
+    port: { type: 'string', default: '8787' },
+    fail: { type: 'boolean' },
+  },
+});
+
+const server = createServer((req, res) => {
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => chunks.push(chunk));
+  req.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8');
+    let printed = body;
+    try {
+      printed = JSON.stringify(JSON.parse(body), null, 2);
+    } catch {
+      // Not JSON; print as is
+    }
+    console.log(`${new Date().toISOString()} ${req.method} ${req.url}\n${printed}`);
+
+    res.writeHead(args.fail ? 500 : 204);
+    res.end();
+  });
+});
+
+server.listen(Number(args.port), '127.0.0.1', () => {
+  console.log(`webhook receiver on http://127.0.0.1:${args.port}/`);
+});
+
+const stop = () => server.close();
+process.on('SIGINT', stop);
+process.on('SIGTERM', stop);